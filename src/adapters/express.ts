@@ -1,37 +1,95 @@
 import type { NextFunction, Request, Response } from "express";
 import type { Handler } from "../handler.js";
-import { isResponseObject } from "../utils/response.js";
+import { abortOnClose } from "../utils/abort.js";
+import {
+	type ResponseObject,
+	isResponseObject,
+	toResponseBody,
+	writeRawBody,
+} from "../utils/response.js";
+import {
+	type StreamFormat,
+	encodeStream,
+	isStreamingOutput,
+	streamHeaders,
+	writeToResponse,
+} from "../utils/stream.js";
+
+// Initial context the Express adapter passes to execute()
+export interface ExpressContext {
+	req: Request;
+	res: Response;
+	// Set by execute(), aborts when the client disconnects before the response is sent
+	signal?: AbortSignal;
+}
+
+async function sendResponse(res: Response, response: ResponseObject) {
+	if (response.headers) {
+		Object.entries(response.headers).forEach(([key, value]) => res.set(key, value));
+	}
+	res.status(response.status);
+	const body = toResponseBody(response);
+	if (body.kind === "empty") {
+		res.end();
+	} else if (body.kind === "raw") {
+		await writeRawBody(body.value, res);
+	} else {
+		res.json(body.value);
+	}
+}
+
+async function sendStream(
+	res: Response,
+	source: AsyncIterable<unknown> | ReadableStream<unknown>,
+	format: StreamFormat,
+	mapError: (error: unknown) => Promise<unknown>,
+) {
+	res.status(200);
+	res.set(streamHeaders(format));
+	res.flushHeaders();
+	await writeToResponse(encodeStream(source, format, mapError), res);
+}
 
 export function toExpress<TInput, TContext, TOutput>(handler: Handler<TInput, TContext, TOutput>) {
 	return async (req: Request, res: Response, next: NextFunction) => {
-		try {
-			const input = handler.expectsMultiInput()
-				? {
-						body: req.body,
-						query: req.query,
-						params: req.params,
-						headers: req.headers,
-					}
-				: req.body;
+		const input = handler.expectsMultiInput()
+			? {
+					body: req.body,
+					query: req.query,
+					params: req.params,
+					headers: req.headers,
+				}
+			: req.body;
+		const context: ExpressContext = { req, res };
+		const close = abortOnClose(res);
 
-			const result = await handler.execute(
-				input as TInput,
-				{
-					req,
-					res,
-				} as TContext,
-			);
+		try {
+			const result = await handler.execute(input as TInput, context as TContext, {
+				signal: close.signal,
+			});
 
-			if (isResponseObject(result)) {
-				if (result.headers) {
-					Object.entries(result.headers).forEach(([key, value]) => res.set(key, value));
-				}
-				res.status(result.status).json(result.body);
+			if (isStreamingOutput(result)) {
+				await sendStream(res, result, handler.streamFormat(), async (error) => {
+					return (await handler.handleError(error, input, context as TContext))?.body;
+				}).catch(next);
+			} else if (isResponseObject(result)) {
+				await sendResponse(res, result).catch(next);
 			} else {
 				res.json(result);
 			}
 		} catch (error) {
-			next(error);
+			try {
+				const response = await handler.handleError(error, input, context as TContext);
+				if (response) {
+					await sendResponse(res, response);
+					return;
+				}
+				next(error);
+			} catch (handlerError) {
+				next(handlerError);
+			}
+		} finally {
+			close.dispose();
 		}
 	};
 }
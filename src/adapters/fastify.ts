@@ -1,6 +1,52 @@
 import type { FastifyReply, FastifyRequest } from "fastify";
 import type { Handler } from "../handler.js";
-import { isResponseObject } from "../utils/response.js";
+import { abortOnClose } from "../utils/abort.js";
+import { type ResponseObject, isResponseObject, toResponseBody } from "../utils/response.js";
+import {
+	encodeStream,
+	isReadableStream,
+	isStreamingOutput,
+	streamHeaders,
+	toReadableStream,
+} from "../utils/stream.js";
+
+// Initial context the Fastify adapter passes to execute()
+export interface FastifyContext {
+	request: FastifyRequest;
+	reply: FastifyReply;
+	// Set by execute(), aborts when the client disconnects before the response is sent
+	signal?: AbortSignal;
+}
+
+function sendResponse(reply: FastifyReply, response: ResponseObject) {
+	if (response.headers) {
+		Object.entries(response.headers).forEach(([key, value]) => reply.header(key, value));
+	}
+	reply.status(response.status);
+
+	const body = toResponseBody(response);
+	if (body.kind === "empty") {
+		return reply.send();
+	}
+	if (body.kind === "raw") {
+		const { value } = body;
+		if (typeof value === "string" || isReadableStream(value)) {
+			return reply.send(value);
+		}
+		// Fastify sends Buffers and web streams as bytes, other iterables are read through a stream
+		return reply.send(
+			value instanceof Uint8Array
+				? Buffer.from(value.buffer, value.byteOffset, value.byteLength)
+				: toReadableStream(value),
+		);
+	}
+	// Fastify sends strings unserialized and rejects objects with a non-JSON content type
+	if (typeof body.value === "string" || !body.contentType.toLowerCase().includes("json")) {
+		reply.header("Content-Type", body.contentType);
+		return reply.send(JSON.stringify(body.value));
+	}
+	return reply.send(body.value);
+}
 
 export function toFastify<TInput, TContext, TOutput>(handler: Handler<TInput, TContext, TOutput>) {
 	return async (request: FastifyRequest, reply: FastifyReply) => {
@@ -12,20 +58,46 @@ export function toFastify<TInput, TContext, TOutput>(handler: Handler<TInput, TC
 					headers: request.headers,
 				}
 			: request.body;
+		const context: FastifyContext = { request, reply };
 
-		const result = await handler.execute(
-			input as TInput,
-			{
-				request,
-				reply,
-			} as TContext,
-		);
+		const close = abortOnClose(reply.raw);
 
-		if (isResponseObject(result)) {
-			if (result.headers) {
-				Object.entries(result.headers).forEach(([key, value]) => reply.header(key, value));
+		let result: TOutput;
+		try {
+			result = await handler.execute(input as TInput, context as TContext, {
+				signal: close.signal,
+			});
+		} catch (error) {
+			close.dispose();
+			const response = await handler.handleError(error, input, context as TContext);
+			if (response) {
+				return sendResponse(reply, response);
 			}
-			return reply.status(result.status).send(result.body);
+			throw error;
+		}
+
+		if (isStreamingOutput(result)) {
+			const format = handler.streamFormat();
+			const encoded = encodeStream(result, format, async (error) => {
+				return (await handler.handleError(error, input, context as TContext))?.body;
+			});
+			// Keep ctx.signal connected until the stream ends, Fastify cancels it on disconnect
+			const stream = toReadableStream(
+				(async function* () {
+					try {
+						yield* encoded;
+					} finally {
+						close.dispose();
+					}
+				})(),
+			);
+			Object.entries(streamHeaders(format)).forEach(([key, value]) => reply.header(key, value));
+			return reply.status(200).send(stream);
+		}
+		close.dispose();
+
+		if (isResponseObject(result)) {
+			return sendResponse(reply, result);
 		}
 		return result;
 	};
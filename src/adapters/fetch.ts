@@ -0,0 +1,101 @@
+import type { Handler } from "../handler.js";
+import { entriesToObject, parseBodyText } from "../utils/body.js";
+import {
+	type ResponseObject,
+	isResponseObject,
+	toResponseBody,
+	toWebBody,
+} from "../utils/response.js";
+import {
+	encodeStream,
+	isStreamingOutput,
+	streamHeaders,
+	toReadableStream,
+} from "../utils/stream.js";
+
+// Initial context the Fetch adapter passes to execute()
+export interface FetchContext {
+	request: Request;
+	// Set by execute() from the request signal, aborts when the client disconnects
+	signal?: AbortSignal;
+}
+
+export interface FetchAdapterOptions {
+	// Route params for the request, e.g. from the runtime's router or a URLPattern match
+	params?: (
+		request: Request,
+	) => Record<string, string> | Promise<Record<string, string> | undefined> | undefined;
+}
+
+async function parseBody(request: Request): Promise<unknown> {
+	if (request.method === "GET" || request.method === "HEAD" || !request.body) {
+		return undefined;
+	}
+
+	const contentType = request.headers.get("content-type")?.toLowerCase() ?? "";
+	if (contentType.startsWith("multipart/form-data")) {
+		return entriesToObject(await request.formData());
+	}
+
+	return parseBodyText(await request.text(), contentType);
+}
+
+function sendResponse(response: ResponseObject): Response {
+	const headers = new Headers(response.headers);
+	const body = toResponseBody(response);
+	if (body.kind === "empty") {
+		return new Response(null, { status: response.status, headers });
+	}
+	if (body.kind === "raw") {
+		return new Response(toWebBody(body.value), { status: response.status, headers });
+	}
+	headers.set("content-type", body.contentType);
+	return new Response(JSON.stringify(body.value), { status: response.status, headers });
+}
+
+export function toFetch<TInput, TContext, TOutput>(
+	handler: Handler<TInput, TContext, TOutput>,
+	options: FetchAdapterOptions = {},
+) {
+	return async (request: Request): Promise<Response> => {
+		const context: FetchContext = { request };
+		let input: unknown;
+
+		let result: TOutput;
+		try {
+			const body = await parseBody(request);
+			input = handler.expectsMultiInput()
+				? {
+						body,
+						query: entriesToObject(new URL(request.url).searchParams),
+						params: (await options.params?.(request)) ?? {},
+						headers: Object.fromEntries(request.headers),
+					}
+				: body;
+			result = await handler.execute(input as TInput, context as TContext, {
+				signal: request.signal,
+			});
+		} catch (error) {
+			const response = await handler.handleError(error, input, context as TContext);
+			if (response) {
+				return sendResponse(response);
+			}
+			throw error;
+		}
+
+		if (isStreamingOutput(result)) {
+			const format = handler.streamFormat();
+			const stream = encodeStream(result, format, async (error) => {
+				return (await handler.handleError(error, input, context as TContext))?.body;
+			});
+			return new Response(toReadableStream(stream), {
+				status: 200,
+				headers: streamHeaders(format),
+			});
+		}
+		if (isResponseObject(result)) {
+			return sendResponse(result);
+		}
+		return sendResponse({ status: 200, body: result });
+	};
+}
@@ -1,25 +1,97 @@
 import type { Context } from "hono";
+import type { ContentfulStatusCode, StatusCode } from "hono/utils/http-status";
+import { BadRequestError } from "../errors/index.js";
 import type { Handler } from "../handler.js";
-import { isResponseObject } from "../utils/response.js";
+import {
+	type ResponseObject,
+	getHeader,
+	isResponseObject,
+	toResponseBody,
+	toWebBody,
+} from "../utils/response.js";
+import {
+	encodeStream,
+	isStreamingOutput,
+	streamHeaders,
+	toReadableStream,
+} from "../utils/stream.js";
+
+// Initial context the Hono adapter passes to execute()
+export interface HonoContext {
+	c: Context;
+	// Set by execute() from the request signal, aborts when the client disconnects
+	signal?: AbortSignal;
+}
+
+async function parseBody(c: Context): Promise<unknown> {
+	if (c.req.method === "GET" || c.req.method === "HEAD" || c.req.raw?.body === null) {
+		return undefined;
+	}
+	try {
+		return await c.req.json();
+	} catch {
+		throw new BadRequestError("Invalid JSON body");
+	}
+}
+
+function sendResponse(c: Context, response: ResponseObject) {
+	const status = response.status as ContentfulStatusCode;
+	if (response.headers) {
+		Object.entries(response.headers).forEach(([key, value]) => c.header(key, value));
+	}
+	const body = toResponseBody(response);
+	if (body.kind === "empty") {
+		return c.body(null, response.status as StatusCode);
+	}
+	if (body.kind === "raw") {
+		return c.body(toWebBody(body.value), status);
+	}
+	// c.json() always sets application/json unless the content type is passed to it directly
+	const contentType = getHeader(response.headers, "content-type");
+	if (contentType) {
+		return c.json(body.value, status, { "Content-Type": contentType });
+	}
+	return c.json(body.value, status);
+}
 
 export function toHono<TInput, TContext, TOutput>(handler: Handler<TInput, TContext, TOutput>) {
-	return async (c: Context) => {
-		const input = handler.expectsMultiInput()
-			? {
-					body: await c.req.json(),
-					query: c.req.query(),
-					params: c.req.param(),
-					headers: Object.fromEntries(c.req.raw.headers),
-				}
-			: await c.req.json();
+	// Declared so the inferred TypedResponse types, which need TypeScript 5.7, stay out of .d.ts files
+	return async (c: Context): Promise<Response> => {
+		const context: HonoContext = { c };
+		let input: unknown;
 
-		const result = await handler.execute(input as TInput, { c } as TContext);
+		let result: TOutput;
+		try {
+			// Parsed inside try so malformed JSON goes through the error handler as a 400
+			const body = await parseBody(c);
+			input = handler.expectsMultiInput()
+				? {
+						body,
+						query: c.req.query(),
+						params: c.req.param(),
+						headers: Object.fromEntries(c.req.raw.headers),
+					}
+				: body;
+			result = await handler.execute(input as TInput, context as TContext, {
+				signal: c.req.raw?.signal,
+			});
+		} catch (error) {
+			const response = await handler.handleError(error, input, context as TContext);
+			if (response) {
+				return sendResponse(c, response);
+			}
+			throw error;
+		}
 
+		if (isStreamingOutput(result)) {
+			const format = handler.streamFormat();
+			const stream = encodeStream(result, format, async (error) => {
+				return (await handler.handleError(error, input, context as TContext))?.body;
+			});
+			return c.body(toReadableStream(stream), 200, streamHeaders(format));
+		}
 		if (isResponseObject(result)) {
-			if (result.headers) {
-				Object.entries(result.headers).forEach(([key, value]) => c.header(key, value));
-			}
-			return c.json(result.body, result.status as Parameters<typeof c.json>[1]);
+			return sendResponse(c, result);
 		}
 		return c.json(result);
 	};
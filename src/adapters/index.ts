@@ -5,7 +5,28 @@
 // Placeholder exports - to be implemented
 export { toExpress } from "./express.js";
 export { toFastify } from "./fastify.js";
+export { toFetch } from "./fetch.js";
 export { toHono } from "./hono.js";
+export { toKoa } from "./koa.js";
+export { toLambda } from "./lambda.js";
+export { toNodeHttp } from "./node-http.js";
 export { toRaw } from "./raw.js";
 
+export type { ExpressContext } from "./express.js";
+export type { FastifyContext } from "./fastify.js";
+export type { FetchAdapterOptions, FetchContext } from "./fetch.js";
+export type { HonoContext } from "./hono.js";
+export type { KoaContext, KoaRequestContext } from "./koa.js";
+export type {
+	ALBEvent,
+	APIGatewayProxyEvent,
+	APIGatewayProxyEventV2,
+	LambdaAdapterOptions,
+	LambdaContext,
+	LambdaEvent,
+	LambdaEventSource,
+	LambdaInvocationContext,
+	LambdaResult,
+} from "./lambda.js";
+export type { NodeHttpAdapterOptions, NodeHttpContext } from "./node-http.js";
 export type { RawHandler } from "./raw.js";
@@ -0,0 +1,115 @@
+import type { Handler } from "../handler.js";
+import { abortOnClose } from "../utils/abort.js";
+import {
+	type ResponseObject,
+	isResponseObject,
+	toResponseBody,
+	writeRawBody,
+} from "../utils/response.js";
+import {
+	type WritableResponse,
+	encodeStream,
+	isStreamingOutput,
+	streamHeaders,
+	writeToResponse,
+} from "../utils/stream.js";
+
+// The parts of a Koa context the adapter uses, so Koa's types are not required.
+// ctx.request.body comes from a body parser and ctx.params from a router such as @koa/router.
+export interface KoaRequestContext {
+	request: { body?: unknown };
+	query: Record<string, string | string[] | undefined>;
+	params?: Record<string, string>;
+	headers: Record<string, string | string[] | undefined>;
+	res: WritableResponse;
+	status: number;
+	body: unknown;
+	respond?: boolean;
+	set(field: string, value: string): void;
+}
+
+// Initial context the Koa adapter passes to execute()
+export interface KoaContext {
+	ctx: KoaRequestContext;
+	// Set by execute(), aborts when the client disconnects before the response is sent
+	signal?: AbortSignal;
+}
+
+async function sendResponse(ctx: KoaRequestContext, response: ResponseObject) {
+	Object.entries(response.headers ?? {}).forEach(([key, value]) => ctx.set(key, value));
+
+	const body = toResponseBody(response);
+	if (body.kind === "empty") {
+		ctx.body = null;
+	} else if (body.kind === "json") {
+		// Koa would send strings as text, so JSON is serialized here for every body
+		ctx.set("Content-Type", body.contentType);
+		ctx.body = JSON.stringify(body.value);
+	} else {
+		const { value } = body;
+		if (typeof value === "string") {
+			ctx.body = value;
+		} else if (value instanceof Uint8Array) {
+			// Koa only sends Buffers as bytes, other Uint8Arrays would become JSON
+			ctx.body = Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+		} else {
+			// Streams are written to ctx.res like streaming outputs
+			ctx.status = response.status;
+			ctx.respond = false;
+			await writeRawBody(value, ctx.res);
+			return;
+		}
+	}
+	// Set after the body, since assigning a null body changes the status to 204
+	ctx.status = response.status;
+}
+
+export function toKoa<TInput, TContext, TOutput>(handler: Handler<TInput, TContext, TOutput>) {
+	return async (ctx: KoaRequestContext) => {
+		const input = handler.expectsMultiInput()
+			? {
+					body: ctx.request.body,
+					query: ctx.query,
+					params: ctx.params ?? {},
+					headers: ctx.headers,
+				}
+			: ctx.request.body;
+		const context: KoaContext = { ctx };
+		const close = abortOnClose(ctx.res);
+
+		let result: TOutput;
+		try {
+			result = await handler.execute(input as TInput, context as TContext, {
+				signal: close.signal,
+			});
+		} catch (error) {
+			const response = await handler.handleError(error, input, context as TContext);
+			if (response) {
+				await sendResponse(ctx, response);
+				return;
+			}
+			throw error;
+		} finally {
+			close.dispose();
+		}
+
+		if (isStreamingOutput(result)) {
+			const format = handler.streamFormat();
+			Object.entries(streamHeaders(format)).forEach(([key, value]) => ctx.set(key, value));
+			ctx.status = 200;
+			// Written to ctx.res like the Node http adapter, since a Readable body for Koa 2 would
+			// need node:stream
+			ctx.respond = false;
+			await writeToResponse(
+				encodeStream(result, format, async (error) => {
+					return (await handler.handleError(error, input, context as TContext))?.body;
+				}),
+				ctx.res,
+			);
+		} else if (isResponseObject(result)) {
+			await sendResponse(ctx, result);
+		} else {
+			await sendResponse(ctx, { status: 200, body: result });
+		}
+	};
+}
@@ -0,0 +1,307 @@
+import { STATUS_TITLES } from "../errors/http.js";
+import type { Handler } from "../handler.js";
+import { entriesToObject, parseBodyText } from "../utils/body.js";
+import {
+	type RawBody,
+	type ResponseObject,
+	getHeader,
+	isResponseObject,
+	toResponseBody,
+} from "../utils/response.js";
+import {
+	encodeStream,
+	isStreamingOutput,
+	streamHeaders,
+	toAsyncIterable,
+} from "../utils/stream.js";
+
+export type LambdaEventSource = "apiGatewayV1" | "apiGatewayV2" | "alb";
+
+type Values<T> = Record<string, T | undefined> | null;
+
+// API Gateway REST API proxy event (payload format 1.0)
+export interface APIGatewayProxyEvent {
+	httpMethod: string;
+	path: string;
+	body: string | null;
+	isBase64Encoded: boolean;
+	headers?: Values<string>;
+	multiValueHeaders?: Values<string[]>;
+	queryStringParameters?: Values<string>;
+	multiValueQueryStringParameters?: Values<string[]>;
+	pathParameters?: Values<string>;
+	requestContext?: object;
+}
+
+// API Gateway HTTP API proxy event (payload format 2.0)
+export interface APIGatewayProxyEventV2 {
+	version: string;
+	rawPath: string;
+	rawQueryString: string;
+	cookies?: string[];
+	headers?: Values<string>;
+	pathParameters?: Values<string>;
+	body?: string;
+	isBase64Encoded: boolean;
+	requestContext: { http: { method: string } };
+}
+
+// Application Load Balancer target event
+export interface ALBEvent {
+	httpMethod: string;
+	path: string;
+	body: string | null;
+	isBase64Encoded: boolean;
+	headers?: Values<string>;
+	multiValueHeaders?: Values<string[]>;
+	queryStringParameters?: Values<string>;
+	multiValueQueryStringParameters?: Values<string[]>;
+	requestContext: { elb: { targetGroupArn: string } };
+}
+
+export type LambdaEvent = APIGatewayProxyEvent | APIGatewayProxyEventV2 | ALBEvent;
+
+// Lambda invocation context, the second argument of a Lambda handler
+export interface LambdaInvocationContext {
+	awsRequestId: string;
+	functionName: string;
+	getRemainingTimeInMillis(): number;
+}
+
+// Proxy result for any of the event sources
+export interface LambdaResult {
+	statusCode: number;
+	statusDescription?: string;
+	headers?: Record<string, string>;
+	multiValueHeaders?: Record<string, string[]>;
+	cookies?: string[];
+	body: string;
+	isBase64Encoded: boolean;
+}
+
+// Initial context the Lambda adapter passes to execute()
+export interface LambdaContext {
+	event: LambdaEvent;
+	context?: LambdaInvocationContext;
+}
+
+export interface LambdaAdapterOptions {
+	// Detected from the event shape when not set
+	eventSource?: LambdaEventSource;
+}
+
+interface NormalizedRequest {
+	body: unknown;
+	query: Record<string, unknown>;
+	params: Record<string, unknown>;
+	headers: Record<string, string>;
+	// The event used multi-value headers, so the result must as well
+	multiValue: boolean;
+}
+
+function detectEventSource(event: LambdaEvent): LambdaEventSource {
+	if ("version" in event && event.version === "2.0") {
+		return "apiGatewayV2";
+	}
+	if (event.requestContext && "elb" in event.requestContext) {
+		return "alb";
+	}
+	return "apiGatewayV1";
+}
+
+function definedEntries<T>(values: Values<T> | undefined): [string, T][] {
+	return Object.entries(values ?? {}).filter(
+		(entry): entry is [string, T] => entry[1] !== undefined,
+	);
+}
+
+function normalizeHeaders(event: APIGatewayProxyEvent | ALBEvent): Record<string, string> {
+	if (event.multiValueHeaders) {
+		return Object.fromEntries(
+			definedEntries(event.multiValueHeaders).map(([key, values]) => [
+				key.toLowerCase(),
+				values.join(", "),
+			]),
+		);
+	}
+	return Object.fromEntries(
+		definedEntries(event.headers).map(([key, value]) => [key.toLowerCase(), value]),
+	);
+}
+
+function queryEntries(event: APIGatewayProxyEvent | ALBEvent): [string, string][] {
+	if (event.multiValueQueryStringParameters) {
+		return definedEntries(event.multiValueQueryStringParameters).flatMap(([key, values]) =>
+			values.map((value): [string, string] => [key, value]),
+		);
+	}
+	return definedEntries(event.queryStringParameters);
+}
+
+// ALB passes query strings through without decoding them
+function decodeQueryComponent(value: string): string {
+	try {
+		return decodeURIComponent(value.replace(/\+/g, " "));
+	} catch {
+		return value;
+	}
+}
+
+function decodeBody(body: string | null | undefined, isBase64Encoded: boolean): string {
+	if (!body) {
+		return "";
+	}
+	return isBase64Encoded ? Buffer.from(body, "base64").toString("utf8") : body;
+}
+
+function normalizeEvent(event: LambdaEvent, source: LambdaEventSource): NormalizedRequest {
+	if (source === "apiGatewayV2") {
+		const v2 = event as APIGatewayProxyEventV2;
+		// HTTP APIs send cookies separately from headers
+		const cookies = v2.cookies?.length ? [["cookie", v2.cookies.join("; ")]] : [];
+		const headers: Record<string, string> = Object.fromEntries([
+			...definedEntries(v2.headers).map(([key, value]) => [key.toLowerCase(), value]),
+			...cookies,
+		]);
+		return {
+			body: parseBodyText(decodeBody(v2.body, v2.isBase64Encoded), headers["content-type"]),
+			query: entriesToObject(new URLSearchParams(v2.rawQueryString)),
+			params: Object.fromEntries(definedEntries(v2.pathParameters)),
+			headers,
+			multiValue: false,
+		};
+	}
+
+	const v1 = event as APIGatewayProxyEvent | ALBEvent;
+	const headers = normalizeHeaders(v1);
+	const entries = queryEntries(v1);
+	return {
+		body: parseBodyText(decodeBody(v1.body, v1.isBase64Encoded), headers["content-type"]),
+		query: entriesToObject(
+			source === "alb"
+				? entries.map(([key, value]) => [decodeQueryComponent(key), decodeQueryComponent(value)])
+				: entries,
+		),
+		params: "pathParameters" in v1 ? Object.fromEntries(definedEntries(v1.pathParameters)) : {},
+		headers,
+		multiValue: v1.multiValueHeaders != null,
+	};
+}
+
+// Raw streams are collected into one body, like streaming outputs
+async function readRawBody(body: RawBody): Promise<string | Uint8Array> {
+	if (typeof body === "string" || body instanceof Uint8Array) {
+		return body;
+	}
+	const encoder = new TextEncoder();
+	const chunks: Uint8Array[] = [];
+	for await (const chunk of toAsyncIterable<string | Uint8Array>(body)) {
+		chunks.push(typeof chunk === "string" ? encoder.encode(chunk) : chunk);
+	}
+	return Buffer.concat(chunks);
+}
+
+async function serializeBody(
+	response: ResponseObject,
+	headers: Record<string, string>,
+): Promise<Pick<LambdaResult, "body" | "isBase64Encoded">> {
+	const body = toResponseBody(response);
+	if (body.kind === "empty") {
+		return { body: "", isBase64Encoded: false };
+	}
+	if (body.kind === "raw") {
+		const value = await readRawBody(body.value);
+		return typeof value === "string"
+			? { body: value, isBase64Encoded: false }
+			: { body: Buffer.from(value).toString("base64"), isBase64Encoded: true };
+	}
+	if (!getHeader(headers, "content-type")) {
+		headers["Content-Type"] = body.contentType;
+	}
+	return { body: JSON.stringify(body.value), isBase64Encoded: false };
+}
+
+async function toResult(
+	response: ResponseObject,
+	source: LambdaEventSource,
+	multiValue: boolean,
+	// Bodies that are already encoded, like buffered streams, skip serialization
+	encoded?: Pick<LambdaResult, "body" | "isBase64Encoded">,
+): Promise<LambdaResult> {
+	const headers: Record<string, string> = { ...response.headers };
+	const body = encoded ?? (await serializeBody(response, headers));
+	const result: LambdaResult = { statusCode: response.status, ...body };
+
+	if (source === "apiGatewayV2") {
+		// HTTP APIs return cookies separately from headers
+		const cookieKey = Object.keys(headers).find((key) => key.toLowerCase() === "set-cookie");
+		if (cookieKey) {
+			result.cookies = [headers[cookieKey] as string];
+			delete headers[cookieKey];
+		}
+	}
+	if (source === "alb") {
+		result.statusDescription = `${response.status} ${STATUS_TITLES[response.status] ?? ""}`.trim();
+	}
+
+	if (multiValue) {
+		result.multiValueHeaders = Object.fromEntries(
+			Object.entries(headers).map(([key, value]) => [key, [value]]),
+		);
+	} else {
+		result.headers = headers;
+	}
+	return result;
+}
+
+export function toLambda<TInput, TContext, TOutput>(
+	handler: Handler<TInput, TContext, TOutput>,
+	options: LambdaAdapterOptions = {},
+) {
+	return async (event: LambdaEvent, lambdaContext?: LambdaInvocationContext) => {
+		const source = options.eventSource ?? detectEventSource(event);
+		const context: LambdaContext = { event, context: lambdaContext };
+		let multiValue = source !== "apiGatewayV2" && (event as ALBEvent).multiValueHeaders != null;
+		let input: unknown;
+
+		let result: TOutput;
+		try {
+			const request = normalizeEvent(event, source);
+			multiValue = request.multiValue;
+			input = handler.expectsMultiInput()
+				? {
+						body: request.body,
+						query: request.query,
+						params: request.params,
+						headers: request.headers,
+					}
+				: request.body;
+			result = await handler.execute(input as TInput, context as TContext);
+		} catch (error) {
+			const response = await handler.handleError(error, input, context as TContext);
+			if (response) {
+				return toResult(response, source, multiValue);
+			}
+			throw error;
+		}
+
+		if (isStreamingOutput(result)) {
+			// Proxy integrations buffer the response, so the stream is collected into one body
+			const format = handler.streamFormat();
+			let body = "";
+			for await (const chunk of encodeStream(result, format, async (error) => {
+				return (await handler.handleError(error, input, context as TContext))?.body;
+			})) {
+				body += chunk;
+			}
+			return toResult({ status: 200, body, headers: streamHeaders(format) }, source, multiValue, {
+				body,
+				isBase64Encoded: false,
+			});
+		}
+		if (isResponseObject(result)) {
+			return toResult(result, source, multiValue);
+		}
+		return toResult({ status: 200, body: result }, source, multiValue);
+	};
+}
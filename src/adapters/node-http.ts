@@ -0,0 +1,134 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { HttpError, InternalServerError, defaultErrorHandler } from "../errors/index.js";
+import type { Handler } from "../handler.js";
+import { abortOnClose } from "../utils/abort.js";
+import { entriesToObject, parseBodyText } from "../utils/body.js";
+import {
+	type ResponseObject,
+	isResponseObject,
+	toResponseBody,
+	writeRawBody,
+} from "../utils/response.js";
+import {
+	encodeStream,
+	isStreamingOutput,
+	streamHeaders,
+	writeToResponse,
+} from "../utils/stream.js";
+
+// Initial context the Node http adapter passes to execute()
+export interface NodeHttpContext {
+	req: IncomingMessage;
+	res: ServerResponse;
+	// Set by execute(), aborts when the client disconnects before the response is sent
+	signal?: AbortSignal;
+}
+
+export interface NodeHttpAdapterOptions {
+	// Largest request body accepted in bytes, larger bodies are rejected with 413. Defaults to 1 MB
+	bodyLimit?: number;
+	// Route params for the request, e.g. from a router that matched req.url
+	params?: (req: IncomingMessage) => Record<string, string> | undefined;
+}
+
+const DEFAULT_BODY_LIMIT = 1024 * 1024;
+
+async function readBody(req: IncomingMessage, limit: number): Promise<unknown> {
+	if (req.method === "GET" || req.method === "HEAD") {
+		return undefined;
+	}
+
+	const tooLarge = () => new HttpError(413, `Request body exceeds ${limit} bytes`);
+	if (Number(req.headers["content-length"] ?? 0) > limit) {
+		throw tooLarge();
+	}
+
+	const chunks: Buffer[] = [];
+	let size = 0;
+	for await (const chunk of req) {
+		size += (chunk as Buffer).length;
+		if (size > limit) {
+			throw tooLarge();
+		}
+		chunks.push(chunk as Buffer);
+	}
+	return parseBodyText(Buffer.concat(chunks).toString("utf8"), req.headers["content-type"]);
+}
+
+async function sendResponse(res: ServerResponse, response: ResponseObject) {
+	res.statusCode = response.status;
+	if (response.headers) {
+		Object.entries(response.headers).forEach(([key, value]) => res.setHeader(key, value));
+	}
+	const body = toResponseBody(response);
+	if (body.kind === "empty") {
+		res.end();
+	} else if (body.kind === "raw") {
+		await writeRawBody(body.value, res);
+	} else {
+		res.setHeader("Content-Type", body.contentType);
+		res.end(JSON.stringify(body.value));
+	}
+}
+
+export function toNodeHttp<TInput, TContext, TOutput>(
+	handler: Handler<TInput, TContext, TOutput>,
+	options: NodeHttpAdapterOptions = {},
+) {
+	const bodyLimit = options.bodyLimit ?? DEFAULT_BODY_LIMIT;
+
+	const handle = async (req: IncomingMessage, res: ServerResponse) => {
+		const context: NodeHttpContext = { req, res };
+		const close = abortOnClose(res);
+		let input: unknown;
+
+		try {
+			const body = await readBody(req, bodyLimit);
+			input = handler.expectsMultiInput()
+				? {
+						body,
+						query: entriesToObject(new URL(req.url ?? "/", "http://localhost").searchParams),
+						params: options.params?.(req) ?? {},
+						headers: req.headers,
+					}
+				: body;
+			const result = await handler.execute(input as TInput, context as TContext, {
+				signal: close.signal,
+			});
+
+			if (isStreamingOutput(result)) {
+				const format = handler.streamFormat();
+				res.writeHead(200, streamHeaders(format));
+				await writeToResponse(
+					encodeStream(result, format, async (error) => {
+						return (await handler.handleError(error, input, context as TContext))?.body;
+					}),
+					res,
+				);
+			} else if (isResponseObject(result)) {
+				await sendResponse(res, result);
+			} else {
+				await sendResponse(res, { status: 200, body: result });
+			}
+		} catch (error) {
+			if (res.headersSent) {
+				res.destroy();
+				return;
+			}
+			// There is no framework to hand unmapped errors to, so they become a 500 response
+			const response =
+				(await handler.handleError(error, input, context as TContext)) ??
+				defaultErrorHandler(new InternalServerError());
+			if (response) {
+				await sendResponse(res, response);
+			}
+		} finally {
+			close.dispose();
+		}
+	};
+
+	return (req: IncomingMessage, res: ServerResponse): void => {
+		// A failing error handler must not become an unhandled rejection in the server
+		handle(req, res).catch(() => res.destroy());
+	};
+}
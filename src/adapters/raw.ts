@@ -1,14 +1,40 @@
 import type { Handler } from "../handler.js";
+import type { ExecuteOptions, SafeResult } from "../types.js";
+import { type ResponseObject, isResponseObject } from "../utils/response.js";
 
 export interface RawHandler<TInput, TContext, TOutput> {
-	execute(input: TInput, context?: Partial<TContext>): Promise<TOutput>;
+	execute(input: TInput, context?: Partial<TContext>, options?: ExecuteOptions): Promise<TOutput>;
+	safeExecute(
+		input: TInput,
+		context?: Partial<TContext>,
+		options?: ExecuteOptions,
+	): Promise<SafeResult<TOutput>>;
+	respond(
+		input: TInput,
+		context?: Partial<TContext>,
+		options?: ExecuteOptions,
+	): Promise<ResponseObject>;
 }
 
 export function toRaw<TInput, TContext, TOutput>(
 	handler: Handler<TInput, TContext, TOutput>,
 ): RawHandler<TInput, TContext, TOutput> {
 	return {
-		execute: (input: TInput, context?: Partial<TContext>) =>
-			handler.execute(input, context as TContext),
+		execute: (input: TInput, context?: Partial<TContext>, options?: ExecuteOptions) =>
+			handler.execute(input, context as TContext, options),
+		safeExecute: (input: TInput, context?: Partial<TContext>, options?: ExecuteOptions) =>
+			handler.safeExecute(input, context, options),
+		respond: async (input: TInput, context?: Partial<TContext>, options?: ExecuteOptions) => {
+			try {
+				const result = await handler.execute(input, context as TContext, options);
+				return isResponseObject(result) ? result : { status: 200, body: result };
+			} catch (error) {
+				const response = await handler.handleError(error, input, context);
+				if (response) {
+					return response;
+				}
+				throw error;
+			}
+		},
 	};
 }
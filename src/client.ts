@@ -0,0 +1,219 @@
+/**
+ * Typed HTTP client inferred from a router definition
+ */
+
+import {
+	HandlerError,
+	HttpError,
+	PROBLEM_CONTENT_TYPE,
+	type ProblemDetails,
+	ValidationError,
+} from "./errors/index.js";
+import type { Handler } from "./handler.js";
+import type { AnyHandler, PathParams, RouteMethod, Router } from "./router.js";
+import type { ValidationIssue } from "./types.js";
+import type { ResponseObject } from "./utils/response.js";
+
+export interface ClientOptions {
+	baseUrl: string;
+	// Defaults to the global fetch
+	fetch?: typeof fetch;
+	// Headers sent with every request
+	headers?: Record<string, string>;
+}
+
+// Per-request options shared by every route
+export interface RequestOptions {
+	headers?: Record<string, string>;
+	signal?: AbortSignal;
+}
+
+type RequestPart = "body" | "query" | "params" | "headers";
+type NoInput = Record<never, never>;
+
+type RoutesOf<TRouter> = TRouter extends Router<infer _TContext, infer TRoutes, infer _TPrefix>
+	? TRoutes
+	: never;
+
+type PathsFor<TRoutes, TMethod extends RouteMethod> = {
+	[TPath in keyof TRoutes & string]: TRoutes[TPath] extends Record<TMethod, AnyHandler>
+		? TPath
+		: never;
+}[keyof TRoutes & string];
+
+type RouteHandler<
+	TRoutes,
+	TPath extends keyof TRoutes,
+	TMethod extends RouteMethod,
+> = TRoutes[TPath] extends Record<TMethod, infer THandler> ? THandler : never;
+
+type InputOf<THandler> = THandler extends Handler<infer TInput, infer _TContext, infer _TOutput>
+	? TInput
+	: never;
+
+type OutputOf<THandler> = THandler extends Handler<infer _TInput, infer _TContext, infer TOutput>
+	? TOutput
+	: never;
+
+// Multi-input handlers take an object keyed only by request parts
+type IsMultiInput<TInput> = unknown extends TInput
+	? false
+	: TInput extends object
+		? [keyof TInput] extends [never]
+			? false
+			: [Exclude<keyof TInput, RequestPart>] extends [never]
+				? true
+				: false
+		: false;
+
+type PathParamValues<TPath extends string> = [PathParams<TPath>] extends [never]
+	? NoInput
+	: { params: Record<PathParams<TPath>, string | number> };
+
+// Request parts for a route: multi-input handlers take their parts, single-input handlers
+// take their input as the body, and path params come from the path when not in the schema
+export type RequestInput<TPath extends string, TInput> = IsMultiInput<TInput> extends true
+	? TInput & ("params" extends keyof TInput ? NoInput : PathParamValues<TPath>)
+	: (unknown extends TInput ? { body?: unknown } : { body: TInput }) &
+			PathParamValues<TPath> & { query?: Record<string, unknown> };
+
+// ResponseObject outputs become a union by status, other outputs a 200 response
+export type ClientResponse<TOutput> = TOutput extends ResponseObject<infer TBody>
+	? { status: TOutput["status"]; body: TBody; headers: Headers }
+	: { status: 200; body: TOutput; headers: Headers };
+
+type RequestArgs<TInput> = NoInput extends TInput
+	? [options?: TInput & RequestOptions]
+	: [options: TInput & RequestOptions];
+
+type RouteCaller<TRoutes, TMethod extends RouteMethod> = <TPath extends PathsFor<TRoutes, TMethod>>(
+	path: TPath,
+	...args: RequestArgs<RequestInput<TPath, InputOf<RouteHandler<TRoutes, TPath, TMethod>>>>
+) => Promise<ClientResponse<OutputOf<RouteHandler<TRoutes, TPath, TMethod>>>>;
+
+export type Client<TRouter> = {
+	[TMethod in RouteMethod]: RouteCaller<RoutesOf<TRouter>, TMethod>;
+};
+
+interface RequestParts extends RequestOptions {
+	body?: unknown;
+	query?: Record<string, unknown>;
+	params?: Record<string, unknown>;
+}
+
+function buildPath(path: string, params: Record<string, unknown> = {}): string {
+	return path.replace(/:([A-Za-z0-9_]+)/g, (_match, name: string) => {
+		const value = params[name];
+		if (value === undefined) {
+			throw new Error(`Missing path param "${name}" for ${path}`);
+		}
+		return encodeURIComponent(String(value));
+	});
+}
+
+function buildQuery(query: Record<string, unknown> = {}): string {
+	const search = new URLSearchParams();
+	for (const [key, value] of Object.entries(query)) {
+		for (const item of Array.isArray(value) ? value : [value]) {
+			if (item !== undefined) {
+				search.append(key, String(item));
+			}
+		}
+	}
+	const serialized = search.toString();
+	return serialized ? `?${serialized}` : "";
+}
+
+async function readBody(response: Response): Promise<unknown> {
+	const text = await response.text();
+	if (!text) {
+		return undefined;
+	}
+	return response.headers.get("content-type")?.includes("json") ? JSON.parse(text) : text;
+}
+
+/**
+ * Rebuild the error a failed response was serialized from by the default error handler.
+ * Returns undefined for JSON responses that are not error bodies, which a handler can return
+ * on purpose as a ResponseObject.
+ */
+function toError(status: number, contentType: string, body: unknown): Error | undefined {
+	if (status < 400) {
+		return undefined;
+	}
+
+	if (contentType.includes(PROBLEM_CONTENT_TYPE) && typeof body === "object" && body !== null) {
+		const {
+			type,
+			title,
+			status: _status,
+			detail,
+			instance,
+			...extensions
+		} = body as ProblemDetails;
+		return new HttpError(status, detail, { type, title, instance, extensions });
+	}
+
+	const { error, message, issues, details } = (body ?? {}) as Record<string, unknown>;
+	if (typeof error === "string" && typeof message === "string") {
+		if (Array.isArray(issues)) {
+			return new ValidationError(
+				message,
+				undefined,
+				undefined,
+				undefined,
+				issues as ValidationIssue[],
+			);
+		}
+		const handlerError = new HandlerError(message, status, details);
+		handlerError.name = error;
+		return handlerError;
+	}
+
+	if (!contentType.includes("json")) {
+		return new HandlerError(`Request failed with status ${status}`, status, body);
+	}
+	return undefined;
+}
+
+/**
+ * Create a client for the routes of a router, e.g. createClient<typeof api>({ baseUrl }).
+ * Inputs and outputs are inferred from each route's handler, nothing is generated.
+ */
+export function createClient<TRouter>(options: ClientOptions): Client<TRouter> {
+	const fetchFn = options.fetch ?? fetch;
+	const baseUrl = options.baseUrl.replace(/\/$/, "");
+
+	const request = async (method: RouteMethod, path: string, parts: RequestParts = {}) => {
+		const url = `${baseUrl}${buildPath(path, parts.params)}${buildQuery(parts.query)}`;
+		const headers: Record<string, string> = { ...options.headers, ...parts.headers };
+		const hasBody = parts.body !== undefined;
+		if (hasBody) {
+			headers["content-type"] = "application/json";
+		}
+
+		const response = await fetchFn(url, {
+			method: method.toUpperCase(),
+			headers,
+			body: hasBody ? JSON.stringify(parts.body) : undefined,
+			signal: parts.signal,
+		});
+		const body = await readBody(response);
+		const error = toError(response.status, response.headers.get("content-type") ?? "", body);
+		if (error) {
+			throw error;
+		}
+		return { status: response.status, body, headers: response.headers };
+	};
+
+	const caller = (method: RouteMethod) => (path: string, parts?: RequestParts) =>
+		request(method, path, parts);
+
+	return {
+		get: caller("get"),
+		post: caller("post"),
+		put: caller("put"),
+		patch: caller("patch"),
+		delete: caller("delete"),
+	} as unknown as Client<TRouter>;
+}
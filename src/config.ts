@@ -2,6 +2,7 @@
  * Global configuration management for typed-handler
  */
 
+import { defaultErrorHandler } from "./errors/index.js";
 import type { HandlerConfig, Logger } from "./types.js";
 
 // No-op logger (default)
@@ -16,6 +17,9 @@ const noopLogger: Logger = {
 const defaultConfig: HandlerConfig = {
 	validateInput: true,
 	validateOutput: process.env.NODE_ENV !== "production",
+	failFast: false,
+	errorHandler: defaultErrorHandler,
+	hooks: {},
 	logger: noopLogger,
 };
 
@@ -0,0 +1,24 @@
+/**
+ * Errors for cancelled and timed-out executions
+ */
+
+import { HandlerError } from "./handler.js";
+import { HttpError } from "./http.js";
+
+export class TimeoutError extends HttpError {
+	constructor(public readonly timeout: number) {
+		super(504, `Handler timed out after ${timeout}ms`);
+		this.name = "TimeoutError";
+	}
+}
+
+export class AbortError extends HandlerError {
+	constructor(public readonly reason?: unknown) {
+		// 499 Client Closed Request (non-standard), the client is usually gone
+		super("Handler execution aborted", 499);
+		this.name = "AbortError";
+		if (Error.captureStackTrace) {
+			Error.captureStackTrace(this, AbortError);
+		}
+	}
+}
@@ -0,0 +1,177 @@
+/**
+ * HTTP error classes with RFC 9457 problem details serialization
+ */
+
+import { HandlerError } from "./handler.js";
+
+export const PROBLEM_CONTENT_TYPE = "application/problem+json";
+
+export interface ProblemDetails {
+	type: string;
+	title: string;
+	status: number;
+	detail?: string;
+	instance?: string;
+	[extension: string]: unknown;
+}
+
+export interface HttpErrorOptions {
+	type?: string;
+	title?: string;
+	instance?: string;
+	extensions?: Record<string, unknown>;
+	details?: unknown;
+}
+
+// Reason phrases for problem titles and for adapters that send a status line, like ALB
+export const STATUS_TITLES: Record<number, string> = {
+	200: "OK",
+	201: "Created",
+	202: "Accepted",
+	204: "No Content",
+	301: "Moved Permanently",
+	302: "Found",
+	303: "See Other",
+	304: "Not Modified",
+	307: "Temporary Redirect",
+	308: "Permanent Redirect",
+	400: "Bad Request",
+	401: "Unauthorized",
+	403: "Forbidden",
+	404: "Not Found",
+	405: "Method Not Allowed",
+	409: "Conflict",
+	410: "Gone",
+	413: "Content Too Large",
+	415: "Unsupported Media Type",
+	422: "Unprocessable Content",
+	429: "Too Many Requests",
+	500: "Internal Server Error",
+	501: "Not Implemented",
+	502: "Bad Gateway",
+	503: "Service Unavailable",
+	504: "Gateway Timeout",
+};
+
+/**
+ * Base class for errors that map to an HTTP status and serialize as application/problem+json
+ */
+export class HttpError extends HandlerError {
+	public readonly type: string;
+	public readonly title: string;
+	public readonly detail?: string;
+	public readonly instance?: string;
+	public readonly extensions: Record<string, unknown>;
+
+	constructor(statusCode: number, message?: string, options: HttpErrorOptions = {}) {
+		const title = options.title ?? STATUS_TITLES[statusCode] ?? "Error";
+		super(message ?? title, statusCode, options.details);
+		this.name = "HttpError";
+		this.type = options.type ?? "about:blank";
+		this.title = title;
+		this.detail = message;
+		this.instance = options.instance;
+		this.extensions = options.extensions ?? {};
+		if (Error.captureStackTrace) {
+			Error.captureStackTrace(this, new.target);
+		}
+	}
+
+	toProblem(): ProblemDetails {
+		return {
+			...this.extensions,
+			type: this.type,
+			title: this.title,
+			status: this.statusCode,
+			...(this.detail !== undefined && { detail: this.detail }),
+			...(this.instance !== undefined && { instance: this.instance }),
+		};
+	}
+
+	toJSON(): ProblemDetails {
+		return this.toProblem();
+	}
+}
+
+export class BadRequestError extends HttpError {
+	constructor(message?: string, options?: HttpErrorOptions) {
+		super(400, message, options);
+		this.name = "BadRequestError";
+	}
+}
+
+export class UnauthorizedError extends HttpError {
+	constructor(message?: string, options?: HttpErrorOptions) {
+		super(401, message, options);
+		this.name = "UnauthorizedError";
+	}
+}
+
+export class ForbiddenError extends HttpError {
+	constructor(message?: string, options?: HttpErrorOptions) {
+		super(403, message, options);
+		this.name = "ForbiddenError";
+	}
+}
+
+export class NotFoundError extends HttpError {
+	constructor(message?: string, options?: HttpErrorOptions) {
+		super(404, message, options);
+		this.name = "NotFoundError";
+	}
+}
+
+export class MethodNotAllowedError extends HttpError {
+	constructor(message?: string, options?: HttpErrorOptions) {
+		super(405, message, options);
+		this.name = "MethodNotAllowedError";
+	}
+}
+
+export class ConflictError extends HttpError {
+	constructor(message?: string, options?: HttpErrorOptions) {
+		super(409, message, options);
+		this.name = "ConflictError";
+	}
+}
+
+export class GoneError extends HttpError {
+	constructor(message?: string, options?: HttpErrorOptions) {
+		super(410, message, options);
+		this.name = "GoneError";
+	}
+}
+
+export class UnprocessableEntityError extends HttpError {
+	constructor(message?: string, options?: HttpErrorOptions) {
+		super(422, message, options);
+		this.name = "UnprocessableEntityError";
+	}
+}
+
+export class TooManyRequestsError extends HttpError {
+	/**
+	 * Seconds until the client may retry, sent as the Retry-After header
+	 */
+	public readonly retryAfter?: number;
+
+	constructor(message?: string, options?: HttpErrorOptions & { retryAfter?: number }) {
+		super(429, message, options);
+		this.name = "TooManyRequestsError";
+		this.retryAfter = options?.retryAfter;
+	}
+}
+
+export class InternalServerError extends HttpError {
+	constructor(message?: string, options?: HttpErrorOptions) {
+		super(500, message, options);
+		this.name = "InternalServerError";
+	}
+}
+
+export class ServiceUnavailableError extends HttpError {
+	constructor(message?: string, options?: HttpErrorOptions) {
+		super(503, message, options);
+		this.name = "ServiceUnavailableError";
+	}
+}
@@ -4,3 +4,21 @@
 
 export { ValidationError } from "./validation.js";
 export { HandlerError } from "./handler.js";
+export {
+	HttpError,
+	BadRequestError,
+	UnauthorizedError,
+	ForbiddenError,
+	NotFoundError,
+	MethodNotAllowedError,
+	ConflictError,
+	GoneError,
+	UnprocessableEntityError,
+	TooManyRequestsError,
+	InternalServerError,
+	ServiceUnavailableError,
+	PROBLEM_CONTENT_TYPE,
+} from "./http.js";
+export type { ProblemDetails, HttpErrorOptions } from "./http.js";
+export { TimeoutError, AbortError } from "./abort.js";
+export { defaultErrorHandler } from "./response.js";
@@ -0,0 +1,51 @@
+/**
+ * Default mapping from errors to response objects
+ */
+
+import type { ResponseObject } from "../utils/response.js";
+import { HandlerError } from "./handler.js";
+import { HttpError, PROBLEM_CONTENT_TYPE, TooManyRequestsError } from "./http.js";
+import { ValidationError } from "./validation.js";
+
+/**
+ * Maps ValidationError to 400, HttpError to an application/problem+json body and
+ * HandlerError to its statusCode.
+ * Returns undefined for any other error so adapters hand it to the framework.
+ */
+export function defaultErrorHandler(error: unknown): ResponseObject | undefined {
+	if (error instanceof ValidationError) {
+		return {
+			status: 400,
+			body: {
+				error: error.name,
+				message: error.message,
+				issues: error.issues,
+			},
+		};
+	}
+
+	if (error instanceof HttpError) {
+		return {
+			status: error.statusCode,
+			body: error.toProblem(),
+			headers: {
+				"Content-Type": PROBLEM_CONTENT_TYPE,
+				...(error instanceof TooManyRequestsError &&
+					error.retryAfter !== undefined && { "Retry-After": String(error.retryAfter) }),
+			},
+		};
+	}
+
+	if (error instanceof HandlerError) {
+		return {
+			status: error.statusCode,
+			body: {
+				error: error.name,
+				message: error.message,
+				...(error.details !== undefined && { details: error.details }),
+			},
+		};
+	}
+
+	return undefined;
+}
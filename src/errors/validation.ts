@@ -2,12 +2,15 @@
  * Validation error class
  */
 
+import type { ValidationIssue } from "../types.js";
+
 export class ValidationError extends Error {
 	constructor(
 		message: string,
 		public readonly field?: string,
 		public readonly value?: unknown,
 		public readonly originalError?: unknown,
+		public readonly issues: ValidationIssue[] = [],
 	) {
 		super(message);
 		this.name = "ValidationError";
@@ -2,16 +2,91 @@
  * Main Handler class for building type-safe request handlers
  */
 
+import type { FetchAdapterOptions } from "./adapters/fetch.js";
+import type { NodeHttpAdapterOptions } from "./adapters/node-http.js";
 import { getConfig } from "./config.js";
 import { ValidationError } from "./errors/index.js";
 import type {
+	AfterHandleHook,
+	AroundMiddleware,
+	BatchItemResult,
+	BatchOptions,
+	BeforeHandleHook,
+	BeforeMiddleware,
+	ErrorHandler,
+	ExecuteOptions,
+	ExecutionResult,
+	ExecutionStage,
+	ExtractedInput,
 	HandlerConfig,
+	HandlerDescription,
 	HandlerFunction,
+	HandlerMeta,
+	InferOutput,
 	Middleware,
+	MiddlewareKind,
+	MiddlewareOptions,
+	OnRequestHook,
+	OnResponseHook,
+	RetryOptions,
+	SafeResult,
+	SchemaDescription,
 	TransformFunction,
 	ValidatorAdapter,
 } from "./types.js";
-import { detectValidator } from "./validators/index.js";
+import { createAbortScope } from "./utils/abort.js";
+import {
+	type EarlyResponse,
+	type ResponseObject,
+	bypassesOutput,
+	isEarlyResponse,
+} from "./utils/response.js";
+import { validateRetryOptions, withRetry } from "./utils/retry.js";
+import {
+	type StreamFormat,
+	type StreamOptions,
+	isStreamingOutput,
+	toAsyncIterable,
+} from "./utils/stream.js";
+import { detectValidator, toValidationError } from "./validators/index.js";
+
+// Middleware chain entry, either a context-producing use() or a wrapping around()
+type MiddlewareEntry =
+	// biome-ignore lint/suspicious/noExplicitAny: Middleware chain requires flexibility
+	| { kind: "use"; fn: Middleware<any, any>; scope: "item" | "batch" }
+	// biome-ignore lint/suspicious/noExplicitAny: Middleware chain requires flexibility
+	| { kind: "around"; fn: AroundMiddleware<any, any, any, any> };
+
+// Mutable per-execution state, read by execute() for hooks and by safeExecute() for the stage
+interface ExecutionState<TContext> {
+	context: TContext;
+	input: unknown;
+	stage: ExecutionStage;
+	// Batch-scoped middleware already ran in executeMany()
+	batched: boolean;
+	onStage?: (stage: ExecutionStage) => void;
+}
+
+function createState<TContext>(
+	input: unknown,
+	initialContext?: Partial<TContext>,
+	batched = false,
+): ExecutionState<TContext> {
+	return { context: { ...initialContext } as TContext, input, stage: "middleware", batched };
+}
+
+function enterStage<TContext>(state: ExecutionState<TContext>, stage: ExecutionStage): void {
+	state.stage = stage;
+	state.onStage?.(stage);
+}
+
+// Per-stage hook lists
+interface HookLists<TInput, TContext, TOutput> {
+	onRequest: OnRequestHook<TContext>[];
+	beforeHandle: BeforeHandleHook<TInput, TContext>[];
+	afterHandle: AfterHandleHook<TInput, TContext, TOutput>[];
+	onResponse: OnResponseHook<TContext, TOutput>[];
+}
 
 export class Handler<TInput = unknown, TContext = object, TOutput = unknown> {
 	private inputValidator?: {
@@ -26,9 +101,22 @@ export class Handler<TInput = unknown, TContext = object, TOutput = unknown> {
 	};
 
 	// biome-ignore lint/suspicious/noExplicitAny: Middleware chain requires flexibility
-	private middlewares: Middleware<any, any>[] = [];
+	private beforeMiddlewares: BeforeMiddleware<any, any>[] = [];
+	private middlewares: MiddlewareEntry[] = [];
 	private handlerFn?: HandlerFunction<TInput, TContext, TOutput>;
 	private transformFn?: TransformFunction<TContext, TOutput, unknown>;
+	private errorHandlerFn?: ErrorHandler<TContext>;
+	// biome-ignore lint/suspicious/noExplicitAny: Hooks are registered against earlier handler types
+	private hooks: HookLists<any, any, any> = {
+		onRequest: [],
+		beforeHandle: [],
+		afterHandle: [],
+		onResponse: [],
+	};
+	private timeoutMs?: number;
+	private retryPolicy?: RetryOptions;
+	private streamOptions?: StreamOptions;
+	private metadata: HandlerMeta = {};
 	private config: HandlerConfig;
 
 	constructor(config?: Partial<HandlerConfig>) {
@@ -39,9 +127,21 @@ export class Handler<TInput = unknown, TContext = object, TOutput = unknown> {
 		const newHandler = new Handler<TInput, TContext, TOutput>(this.config);
 		newHandler.inputValidator = this.inputValidator;
 		newHandler.outputValidator = this.outputValidator;
+		newHandler.beforeMiddlewares = [...this.beforeMiddlewares];
 		newHandler.middlewares = [...this.middlewares];
 		newHandler.handlerFn = this.handlerFn;
 		newHandler.transformFn = this.transformFn;
+		newHandler.errorHandlerFn = this.errorHandlerFn;
+		newHandler.timeoutMs = this.timeoutMs;
+		newHandler.retryPolicy = this.retryPolicy;
+		newHandler.streamOptions = this.streamOptions;
+		newHandler.metadata = { ...this.metadata };
+		newHandler.hooks = {
+			onRequest: [...this.hooks.onRequest],
+			beforeHandle: [...this.hooks.beforeHandle],
+			afterHandle: [...this.hooks.afterHandle],
+			onResponse: [...this.hooks.onResponse],
+		};
 		return newHandler;
 	}
 
@@ -51,7 +151,10 @@ export class Handler<TInput = unknown, TContext = object, TOutput = unknown> {
 		}
 
 		const obj = schema as Record<string, unknown>;
-		const hasNoMethods = !Object.keys(obj).some((key) => typeof obj[key] === "function");
+		// Callable schemas, like ArkType's, are parts rather than methods
+		const hasNoMethods = !Object.keys(obj).some(
+			(key) => typeof obj[key] === "function" && !detectValidator(obj[key]),
+		);
 		if (!hasNoMethods) {
 			return false;
 		}
@@ -65,31 +168,61 @@ export class Handler<TInput = unknown, TContext = object, TOutput = unknown> {
 			return data as TInput;
 		}
 
+		const adapter = this.inputValidator.isMultiInput
+			? undefined
+			: this.inputValidator.adapter || detectValidator(this.inputValidator.schema);
+
 		try {
 			if (this.inputValidator.isMultiInput) {
 				const schema = this.inputValidator.schema as Record<string, unknown>;
 				const input = data as Record<string, unknown>;
 				const validated: Record<string, unknown> = {};
+				const failures: ValidationError[] = [];
 
-				for (const key of ["body", "query", "params", "headers"]) {
+				for (const key of ["body", "query", "params", "headers"] as const) {
 					if (key in schema) {
 						const partSchema = schema[key];
 						const partData = input[key];
-						const adapter = this.inputValidator.adapter || detectValidator(partSchema);
-
-						if (adapter) {
-							validated[key] = await adapter.parse(partSchema, partData);
+						const partAdapter = this.inputValidator.adapter || detectValidator(partSchema);
+
+						if (partAdapter) {
+							try {
+								validated[key] = await partAdapter.parse(partSchema, partData);
+							} catch (error) {
+								const failure = toValidationError(error, {
+									message: "Validation failed",
+									value: data,
+									adapter: partAdapter,
+									source: key,
+								});
+								if (this.config.failFast) {
+									throw failure;
+								}
+								failures.push(failure);
+							}
 						} else {
 							validated[key] = partData;
 						}
 					}
 				}
 
+				if (failures.length === 1) {
+					throw failures[0];
+				}
+
+				if (failures.length > 1) {
+					throw new ValidationError(
+						"Validation failed",
+						failures[0]?.field,
+						data,
+						failures,
+						failures.flatMap((failure) => failure.issues),
+					);
+				}
+
 				return validated as TInput;
 			}
 
-			const adapter = this.inputValidator.adapter || detectValidator(this.inputValidator.schema);
-
 			if (adapter) {
 				return (await adapter.parse(this.inputValidator.schema, data)) as TInput;
 			}
@@ -101,15 +234,15 @@ export class Handler<TInput = unknown, TContext = object, TOutput = unknown> {
 			return data as TInput;
 		} catch (error) {
 			this.config.logger.error("Input validation failed", error);
-			if (error instanceof ValidationError) {
-				throw error;
-			}
-			throw new ValidationError(
-				"Validation failed",
-				undefined,
-				data,
-				error instanceof Error ? error : undefined,
-			);
+			throw toValidationError(error, { message: "Validation failed", value: data, adapter });
+		}
+	}
+
+	private async *validateChunks(
+		source: AsyncIterable<unknown> | ReadableStream<unknown>,
+	): AsyncGenerator<unknown> {
+		for await (const chunk of toAsyncIterable(source)) {
+			yield await this.validateOutput(chunk);
 		}
 	}
 
@@ -118,9 +251,9 @@ export class Handler<TInput = unknown, TContext = object, TOutput = unknown> {
 			return data as TOutput;
 		}
 
-		try {
-			const adapter = this.outputValidator.adapter || detectValidator(this.outputValidator.schema);
+		const adapter = this.outputValidator.adapter || detectValidator(this.outputValidator.schema);
 
+		try {
 			if (adapter) {
 				return (await adapter.parse(this.outputValidator.schema, data)) as TOutput;
 			}
@@ -134,20 +267,19 @@ export class Handler<TInput = unknown, TContext = object, TOutput = unknown> {
 			return data as TOutput;
 		} catch (error) {
 			this.config.logger.error("Output validation failed", error);
-			if (error instanceof ValidationError) {
-				throw error;
-			}
-			throw new ValidationError(
-				"Output validation failed",
-				undefined,
-				data,
-				error instanceof Error ? error : undefined,
-			);
+			throw toValidationError(error, { message: "Output validation failed", value: data, adapter });
 		}
 	}
 
-	input<T>(schema?: unknown, adapter?: ValidatorAdapter<T>): Handler<T, TContext, TOutput> {
-		const newHandler = this.clone() as unknown as Handler<T, TContext, TOutput>;
+	input<T>(): Handler<T, TContext, TOutput>;
+	input<TSchema>(schema: TSchema): Handler<ExtractedInput<TSchema>, TContext, TOutput>;
+	// Picked when the input type is given explicitly, e.g. .input<User>(schema)
+	input<T>(schema: unknown, adapter?: ValidatorAdapter<T>): Handler<T, TContext, TOutput>;
+	input(
+		schema?: unknown,
+		adapter?: ValidatorAdapter<unknown>,
+	): Handler<unknown, TContext, TOutput> {
+		const newHandler = this.clone() as unknown as Handler<unknown, TContext, TOutput>;
 
 		if (schema === undefined) {
 			return newHandler;
@@ -156,18 +288,80 @@ export class Handler<TInput = unknown, TContext = object, TOutput = unknown> {
 		const isMultiInput = this.detectMultiInput(schema);
 		newHandler.inputValidator = {
 			schema,
-			adapter: adapter as ValidatorAdapter<unknown> | undefined,
+			adapter,
 			isMultiInput,
 		};
 
 		return newHandler;
 	}
 
+	before<TNewContext = unknown>(
+		middleware: BeforeMiddleware<TContext, TNewContext>,
+	): Handler<TInput, TContext & TNewContext, TOutput> {
+		const newHandler = this.clone() as unknown as Handler<TInput, TContext & TNewContext, TOutput>;
+		newHandler.beforeMiddlewares.push(middleware);
+		return newHandler;
+	}
+
 	use<TNewContext>(
-		middleware: Middleware<TContext, TNewContext>,
+		middleware: Middleware<TContext, TNewContext | EarlyResponse>,
+		options: MiddlewareOptions = {},
 	): Handler<TInput, TContext & TNewContext, TOutput> {
 		const newHandler = this.clone() as unknown as Handler<TInput, TContext & TNewContext, TOutput>;
-		newHandler.middlewares.push(middleware);
+		newHandler.middlewares.push({ kind: "use", fn: middleware, scope: options.scope ?? "item" });
+		return newHandler;
+	}
+
+	around<TNewContext extends object = object>(
+		middleware: AroundMiddleware<TInput, TContext, TOutput, TNewContext>,
+	): Handler<TInput, TContext & TNewContext, TOutput> {
+		const newHandler = this.clone() as unknown as Handler<TInput, TContext & TNewContext, TOutput>;
+		newHandler.middlewares.push({ kind: "around", fn: middleware });
+		return newHandler;
+	}
+
+	/**
+	 * Copy of the handler with shared middleware running ahead of its own use() and around()
+	 * middleware, used by routers
+	 */
+	// biome-ignore lint/suspicious/noExplicitAny: Shared middleware is typed by the router
+	withMiddleware(middlewares: Middleware<any, any>[]): Handler<TInput, TContext, TOutput> {
+		const newHandler = this.clone();
+		newHandler.middlewares = [
+			...middlewares.map((fn): MiddlewareEntry => ({ kind: "use", fn, scope: "item" })),
+			...newHandler.middlewares,
+		];
+		return newHandler;
+	}
+
+	/**
+	 * Copy of the handler with every before(), use() or around() middleware named `name`
+	 * (its function name) swapped for the result of `replace`, used by test helpers
+	 */
+	replaceMiddleware(
+		name: string,
+		// biome-ignore lint/suspicious/noExplicitAny: Replacements take the signature of the middleware kind
+		replace: (kind: MiddlewareKind, middleware: (...args: any[]) => unknown) => any,
+	): Handler<TInput, TContext, TOutput> {
+		const newHandler = this.clone();
+		let replaced = false;
+		newHandler.beforeMiddlewares = newHandler.beforeMiddlewares.map((fn) => {
+			if (fn.name !== name) {
+				return fn;
+			}
+			replaced = true;
+			return replace("before", fn);
+		});
+		newHandler.middlewares = newHandler.middlewares.map((entry) => {
+			if (entry.fn.name !== name) {
+				return entry;
+			}
+			replaced = true;
+			return { ...entry, fn: replace(entry.kind, entry.fn) };
+		});
+		if (!replaced) {
+			throw new Error(`No middleware named "${name}"`);
+		}
 		return newHandler;
 	}
 
@@ -177,8 +371,15 @@ export class Handler<TInput = unknown, TContext = object, TOutput = unknown> {
 		return newHandler;
 	}
 
-	output<T>(schema?: unknown, adapter?: ValidatorAdapter<T>): Handler<TInput, TContext, T> {
-		const newHandler = this.clone() as unknown as Handler<TInput, TContext, T>;
+	output<T>(): Handler<TInput, TContext, T>;
+	output<TSchema>(schema: TSchema): Handler<TInput, TContext, InferOutput<TSchema>>;
+	// Picked when the output type is given explicitly, e.g. .output<User>(schema)
+	output<T>(schema: unknown, adapter?: ValidatorAdapter<T>): Handler<TInput, TContext, T>;
+	output(
+		schema?: unknown,
+		adapter?: ValidatorAdapter<unknown>,
+	): Handler<TInput, TContext, unknown> {
+		const newHandler = this.clone() as unknown as Handler<TInput, TContext, unknown>;
 
 		if (schema === undefined) {
 			return newHandler;
@@ -186,7 +387,7 @@ export class Handler<TInput = unknown, TContext = object, TOutput = unknown> {
 
 		newHandler.outputValidator = {
 			schema,
-			adapter: adapter as ValidatorAdapter<unknown> | undefined,
+			adapter,
 		};
 
 		return newHandler;
@@ -200,40 +401,476 @@ export class Handler<TInput = unknown, TContext = object, TOutput = unknown> {
 		return newHandler;
 	}
 
-	async execute(input: unknown, initialContext?: Partial<TContext>): Promise<TOutput> {
+	onError(fn: ErrorHandler<TContext>): Handler<TInput, TContext, TOutput> {
+		const newHandler = this.clone();
+		newHandler.errorHandlerFn = fn;
+		return newHandler;
+	}
+
+	timeout(ms: number): Handler<TInput, TContext & { signal: AbortSignal }, TOutput> {
+		if (!Number.isFinite(ms) || ms <= 0) {
+			throw new Error("Timeout must be a positive number of milliseconds");
+		}
+		const newHandler = this.clone() as unknown as Handler<
+			TInput,
+			TContext & { signal: AbortSignal },
+			TOutput
+		>;
+		newHandler.timeoutMs = ms;
+		return newHandler;
+	}
+
+	retry(options: RetryOptions): Handler<TInput, TContext & { attempt: number }, TOutput> {
+		validateRetryOptions(options);
+		const newHandler = this.clone() as unknown as Handler<
+			TInput,
+			TContext & { attempt: number },
+			TOutput
+		>;
+		newHandler.retryPolicy = options;
+		return newHandler;
+	}
+
+	meta(meta: HandlerMeta): Handler<TInput, TContext, TOutput> {
+		const newHandler = this.clone();
+		newHandler.metadata = { ...newHandler.metadata, ...meta };
+		return newHandler;
+	}
+
+	stream(options: StreamOptions): Handler<TInput, TContext, TOutput> {
+		const newHandler = this.clone();
+		newHandler.streamOptions = options;
+		return newHandler;
+	}
+
+	onRequest(hook: OnRequestHook<TContext>): Handler<TInput, TContext, TOutput> {
+		const newHandler = this.clone();
+		newHandler.hooks.onRequest.push(hook);
+		return newHandler;
+	}
+
+	beforeHandle(hook: BeforeHandleHook<TInput, TContext>): Handler<TInput, TContext, TOutput> {
+		const newHandler = this.clone();
+		newHandler.hooks.beforeHandle.push(hook);
+		return newHandler;
+	}
+
+	afterHandle(
+		hook: AfterHandleHook<TInput, TContext, TOutput>,
+	): Handler<TInput, TContext, TOutput> {
+		const newHandler = this.clone();
+		newHandler.hooks.afterHandle.push(hook);
+		return newHandler;
+	}
+
+	onResponse(hook: OnResponseHook<TContext, TOutput>): Handler<TInput, TContext, TOutput> {
+		const newHandler = this.clone();
+		newHandler.hooks.onResponse.push(hook);
+		return newHandler;
+	}
+
+	private getHooks<K extends keyof HookLists<TInput, TContext, TOutput>>(
+		stage: K,
+	): HookLists<TInput, TContext, TOutput>[K] {
+		const globalHook = this.config.hooks[stage];
+		return (globalHook ? [globalHook, ...this.hooks[stage]] : this.hooks[stage]) as HookLists<
+			TInput,
+			TContext,
+			TOutput
+		>[K];
+	}
+
+	private async emitResponse(
+		input: unknown,
+		context: Partial<TContext>,
+		result: ExecutionResult<TOutput>,
+	): Promise<void> {
+		for (const hook of this.getHooks("onResponse")) {
+			try {
+				await hook(input, context, result);
+			} catch (error) {
+				this.config.logger.error("onResponse hook failed", error);
+			}
+		}
+	}
+
+	/**
+	 * Run the middleware chain from `index`, then the handler section of the pipeline
+	 */
+	private async runChain(
+		index: number,
+		input: TInput,
+		context: TContext,
+		state: ExecutionState<TContext>,
+	): Promise<TOutput> {
+		state.context = context;
+		const entry = this.middlewares[index];
+
+		if (!entry) {
+			return this.runHandlerWithRetry(input, context, state);
+		}
+		enterStage(state, "middleware");
+
+		if (entry.kind === "around") {
+			let called = false;
+			return entry.fn(input, context, async (contextPatch?: object) => {
+				if (called) {
+					throw new Error("next() called multiple times");
+				}
+				called = true;
+				const output = await this.runChain(
+					index + 1,
+					input,
+					{ ...context, ...contextPatch },
+					state,
+				);
+				enterStage(state, "middleware");
+				return output;
+			});
+		}
+
+		if (entry.scope === "batch" && state.batched) {
+			return this.runChain(index + 1, input, context, state);
+		}
+
+		const middlewareResult = await entry.fn(input, context);
+		if (isEarlyResponse(middlewareResult)) {
+			return this.finishEarly(middlewareResult, context, state);
+		}
+		return this.runChain(index + 1, input, { ...context, ...middlewareResult } as TContext, state);
+	}
+
+	/**
+	 * Complete the pipeline with a middleware's early response, skipping the handler section
+	 */
+	private async finishEarly(
+		response: EarlyResponse,
+		context: TContext,
+		state: ExecutionState<TContext>,
+	): Promise<TOutput> {
+		if (bypassesOutput(response) || !this.transformFn) {
+			return response as TOutput;
+		}
+		enterStage(state, "transform");
+		return (await this.transformFn(response as TOutput, context)) as TOutput;
+	}
+
+	private async runHandlerWithRetry(
+		input: TInput,
+		context: TContext,
+		state: ExecutionState<TContext>,
+	): Promise<TOutput> {
+		const policy = this.retryPolicy;
+		if (!policy) {
+			return this.runHandler(input, context, state);
+		}
+
+		const signal = (context as { signal?: AbortSignal }).signal;
+		return withRetry(
+			policy,
+			(attempt) => {
+				state.context = { ...context, attempt };
+				return this.runHandler(input, state.context, state);
+			},
+			{
+				signal,
+				onRetry: ({ attempt, error, delay }) =>
+					this.config.logger.warn("Handler attempt failed, retrying", { attempt, delay, error }),
+			},
+		);
+	}
+
+	private async runHandler(
+		input: TInput,
+		context: TContext,
+		state: ExecutionState<TContext>,
+	): Promise<TOutput> {
+		enterStage(state, "handler");
+		if (!this.handlerFn) {
+			throw new Error("Handler function not defined");
+		}
+
+		for (const hook of this.getHooks("beforeHandle")) {
+			await hook(input, context);
+		}
+
+		let output: TOutput = await this.handlerFn(input, context);
+
+		for (const hook of this.getHooks("afterHandle")) {
+			const replacement = await hook(input, context, output);
+			if (replacement !== undefined) {
+				output = replacement;
+			}
+		}
+
+		if (!this.transformFn) {
+			return output;
+		}
+		enterStage(state, "transform");
+		return (await this.transformFn(output, context)) as TOutput;
+	}
+
+	async execute(
+		input: unknown,
+		initialContext?: Partial<TContext>,
+		options: ExecuteOptions = {},
+	): Promise<TOutput> {
+		return this.run(input, createState(input, initialContext), options);
+	}
+
+	/**
+	 * Execute without throwing, resolving to a result tagged with the failing stage
+	 */
+	async safeExecute(
+		input: unknown,
+		initialContext?: Partial<TContext>,
+		options: ExecuteOptions = {},
+	): Promise<SafeResult<TOutput>> {
+		return this.settle(input, createState(input, initialContext), options);
+	}
+
+	/**
+	 * Execute every input with bounded concurrency, resolving to per-item results in input order.
+	 * Middleware registered with `{ scope: "batch" }` runs once, before any item.
+	 */
+	async executeMany(
+		inputs: readonly unknown[],
+		options: BatchOptions<TContext, TOutput> = {},
+	): Promise<BatchItemResult<TOutput>[]> {
+		const {
+			concurrency = 1,
+			stopOnError = false,
+			context,
+			onProgress,
+			...executeOptions
+		} = options;
+		if (!Number.isInteger(concurrency) || concurrency < 1) {
+			throw new Error("Concurrency must be a positive integer");
+		}
+
+		const results: BatchItemResult<TOutput>[] = [];
+		let batchContext: Partial<TContext>;
 		try {
-			if (!this.handlerFn) {
-				throw new Error("Handler function not defined");
+			batchContext = await this.runBatchMiddleware(inputs, { ...context });
+		} catch (error) {
+			this.config.logger.error("Batch middleware failed", error);
+			return inputs.map(() => ({ ok: false, error, stage: "middleware" }));
+		}
+
+		let next = 0;
+		let completed = 0;
+		let stopped = false;
+
+		const worker = async () => {
+			while (next < inputs.length && !stopped) {
+				const index = next++;
+				const input = inputs[index];
+				const result = await this.settle(
+					input,
+					createState(input, batchContext, true),
+					executeOptions,
+				);
+				results[index] = result;
+				completed++;
+				if (!result.ok && stopOnError) {
+					stopped = true;
+				}
+				onProgress?.({ index, result, completed, total: inputs.length });
 			}
+		};
 
-			const validatedInput = this.config.validateInput
-				? await this.validateInput(input)
-				: (input as TInput);
+		await Promise.all(Array.from({ length: Math.min(concurrency, inputs.length) }, worker));
 
-			let context: TContext = { ...initialContext } as TContext;
+		return inputs.map((_input, index) => results[index] ?? { ok: false, skipped: true });
+	}
 
-			for (const middleware of this.middlewares) {
-				const middlewareResult = await middleware(validatedInput, context);
-				context = { ...context, ...middlewareResult } as TContext;
+	private async runBatchMiddleware(
+		inputs: readonly unknown[],
+		context: Partial<TContext>,
+	): Promise<Partial<TContext>> {
+		let batchContext = context;
+		for (const entry of this.middlewares) {
+			if (entry.kind !== "use" || entry.scope !== "batch") {
+				continue;
 			}
+			const middlewareResult = await entry.fn(inputs, batchContext);
+			if (isEarlyResponse(middlewareResult)) {
+				throw new Error("Batch middleware cannot respond early");
+			}
+			batchContext = { ...batchContext, ...middlewareResult };
+		}
+		return batchContext;
+	}
 
-			const output = await this.handlerFn(validatedInput, context);
+	private async settle(
+		input: unknown,
+		state: ExecutionState<TContext>,
+		options: ExecuteOptions,
+	): Promise<SafeResult<TOutput>> {
+		try {
+			return { ok: true, value: await this.run(input, state, options) };
+		} catch (error) {
+			return { ok: false, error, stage: state.stage };
+		}
+	}
 
-			const transformedOutput = this.transformFn ? await this.transformFn(output, context) : output;
+	private async run(
+		input: unknown,
+		state: ExecutionState<TContext>,
+		options: ExecuteOptions,
+	): Promise<TOutput> {
+		state.onStage = options.onStage;
+		const scope = createAbortScope({ signal: options.signal, timeout: this.timeoutMs });
+		if (scope) {
+			state.context = { ...state.context, signal: scope.signal };
+		}
+		let result: TOutput;
 
-			return this.config.validateOutput
-				? await this.validateOutput(transformedOutput)
-				: (transformedOutput as TOutput);
+		try {
+			scope?.signal.throwIfAborted();
+			const pipeline = this.runPipeline(input, state);
+			result = await (scope ? scope.race(pipeline) : pipeline);
 		} catch (error) {
 			this.config.logger.error("Handler execution failed", error);
+			await this.emitResponse(state.input, state.context, { error });
 			throw error;
+		} finally {
+			scope?.dispose();
+		}
+
+		await this.emitResponse(state.input, state.context, { output: result });
+		return result;
+	}
+
+	private async runPipeline(input: unknown, state: ExecutionState<TContext>): Promise<TOutput> {
+		if (!this.handlerFn) {
+			enterStage(state, "handler");
+			throw new Error("Handler function not defined");
+		}
+
+		for (const hook of this.getHooks("onRequest")) {
+			await hook(input, state.context);
+		}
+
+		let rawInput = input;
+		let earlyResponse: EarlyResponse | undefined;
+
+		for (const middleware of this.beforeMiddlewares) {
+			enterStage(state, "middleware");
+			const beforeResult = await middleware(rawInput, state.context);
+			if (isEarlyResponse(beforeResult)) {
+				earlyResponse = beforeResult;
+				break;
+			}
+			if (beforeResult && "input" in beforeResult) {
+				rawInput = beforeResult.input;
+				state.input = rawInput;
+			}
+			if (beforeResult?.context) {
+				state.context = { ...state.context, ...beforeResult.context };
+			}
+		}
+
+		let output: TOutput;
+		if (earlyResponse) {
+			output = await this.finishEarly(earlyResponse, state.context, state);
+		} else {
+			enterStage(state, "input");
+			const validatedInput = this.config.validateInput
+				? await this.validateInput(rawInput)
+				: (rawInput as TInput);
+			state.input = validatedInput;
+
+			output = await this.runChain(0, validatedInput, state.context, state);
+		}
+
+		if (!this.config.validateOutput || bypassesOutput(output)) {
+			return output;
+		}
+		if (isStreamingOutput(output)) {
+			return this.streamOptions?.validateChunks ? (this.validateChunks(output) as TOutput) : output;
 		}
+		enterStage(state, "output");
+		return this.validateOutput(output);
+	}
+
+	/**
+	 * Validate a value against the output schema, whether or not validateOutput is enabled
+	 */
+	async parseOutput(value: unknown): Promise<TOutput> {
+		return this.validateOutput(value);
 	}
 
 	expectsMultiInput(): boolean {
 		return this.inputValidator?.isMultiInput ?? false;
 	}
 
+	/**
+	 * Describe the handler's metadata, schemas, middleware and hooks for tooling
+	 */
+	describe(): HandlerDescription {
+		const describeSchema = (
+			schema: unknown,
+			adapter?: ValidatorAdapter<unknown>,
+		): SchemaDescription => {
+			const resolved = adapter ?? detectValidator(schema);
+			return { schema, adapter: resolved?.name, jsonSchema: resolved?.toJSONSchema?.(schema) };
+		};
+
+		let input: HandlerDescription["input"];
+		if (this.inputValidator?.isMultiInput) {
+			const schema = this.inputValidator.schema as Record<string, unknown>;
+			input = {};
+			for (const key of ["body", "query", "params", "headers"] as const) {
+				if (key in schema) {
+					input[key] = describeSchema(schema[key], this.inputValidator.adapter);
+				}
+			}
+		} else if (this.inputValidator) {
+			input = describeSchema(this.inputValidator.schema, this.inputValidator.adapter);
+		}
+
+		return {
+			meta: { ...this.metadata },
+			multiInput: this.expectsMultiInput(),
+			input,
+			output: this.outputValidator
+				? describeSchema(this.outputValidator.schema, this.outputValidator.adapter)
+				: undefined,
+			middleware: {
+				before: this.beforeMiddlewares.length,
+				use: this.middlewares.filter((entry) => entry.kind === "use").length,
+				around: this.middlewares.filter((entry) => entry.kind === "around").length,
+			},
+			hooks: {
+				onRequest: this.getHooks("onRequest").length,
+				beforeHandle: this.getHooks("beforeHandle").length,
+				afterHandle: this.getHooks("afterHandle").length,
+				onResponse: this.getHooks("onResponse").length,
+			},
+		};
+	}
+
+	/**
+	 * Format adapters use for streaming outputs, NDJSON unless set with stream()
+	 */
+	streamFormat(): StreamFormat {
+		return this.streamOptions?.format ?? "ndjson";
+	}
+
+	/**
+	 * Map an execution error to a response using the handler's onError or the configured errorHandler
+	 */
+	async handleError(
+		error: unknown,
+		input: unknown,
+		context: Partial<TContext> = {},
+	): Promise<ResponseObject | undefined> {
+		const errorHandler =
+			this.errorHandlerFn ?? (this.config.errorHandler as ErrorHandler<TContext>);
+		return errorHandler(error, input, context);
+	}
+
 	async express() {
 		const { toExpress } = await import("./adapters/express.js");
 		return toExpress(this);
@@ -249,6 +886,21 @@ export class Handler<TInput = unknown, TContext = object, TOutput = unknown> {
 		return toHono(this);
 	}
 
+	async koa() {
+		const { toKoa } = await import("./adapters/koa.js");
+		return toKoa(this);
+	}
+
+	async nodeHttp(options?: NodeHttpAdapterOptions) {
+		const { toNodeHttp } = await import("./adapters/node-http.js");
+		return toNodeHttp(this, options);
+	}
+
+	async fetch(options?: FetchAdapterOptions) {
+		const { toFetch } = await import("./adapters/fetch.js");
+		return toFetch(this, options);
+	}
+
 	async raw() {
 		const { toRaw } = await import("./adapters/raw.js");
 		return toRaw(this);
@@ -6,6 +6,34 @@
 
 export { handler } from "./handler.js";
 export { configure, getConfig, resetConfig } from "./config.js";
+export { createClient } from "./client.js";
+export type {
+	Client,
+	ClientOptions,
+	ClientResponse,
+	RequestInput,
+	RequestOptions,
+} from "./client.js";
+export { generateOpenAPI } from "./openapi.js";
+export type {
+	HttpMethod,
+	OpenAPIDocument,
+	OpenAPIOperation,
+	OpenAPIOptions,
+	OpenAPIParameter,
+	OpenAPIResponse,
+	OpenAPIRoute,
+} from "./openapi.js";
+export { Router, router } from "./router.js";
+export type {
+	AnyHandler,
+	CheckParams,
+	EmptyRoutes,
+	PathParams,
+	RouteDefinition,
+	RouteMap,
+	RouteMethod,
+} from "./router.js";
 export { registerAdapter } from "./validators/registry.js";
 
 // Export types
@@ -13,16 +41,68 @@ export type {
 	HandlerFunction,
 	Middleware,
 	HandlerConfig,
+	ErrorHandler,
+	LifecycleHooks,
+	OnRequestHook,
+	BeforeHandleHook,
+	AfterHandleHook,
+	OnResponseHook,
+	ExecutionResult,
+	ExecuteOptions,
+	JSONSchema,
+	HandlerMeta,
+	HandlerDescription,
+	SchemaDescription,
+	BatchOptions,
+	BatchItemResult,
+	BatchProgress,
+	MiddlewareKind,
+	MiddlewareOptions,
+	ExecutionStage,
+	SafeResult,
+	RetryOptions,
+	RetryAttempt,
 	Logger,
 	ValidatorAdapter,
 	MultiInput,
 	InferInput,
 	InferOutput,
+	ExtractedInput,
+	BeforeMiddleware,
+	BeforeResult,
+	AroundMiddleware,
+	AroundResult,
+	StandardSchemaV1,
+	ValidationIssue,
+	InputSource,
 } from "./types.js";
 
 // Export errors
-export { ValidationError, HandlerError } from "./errors/index.js";
+export {
+	ValidationError,
+	HandlerError,
+	HttpError,
+	BadRequestError,
+	UnauthorizedError,
+	ForbiddenError,
+	NotFoundError,
+	MethodNotAllowedError,
+	ConflictError,
+	GoneError,
+	UnprocessableEntityError,
+	TooManyRequestsError,
+	InternalServerError,
+	ServiceUnavailableError,
+	PROBLEM_CONTENT_TYPE,
+	TimeoutError,
+	AbortError,
+	defaultErrorHandler,
+} from "./errors/index.js";
+export type { ProblemDetails, HttpErrorOptions } from "./errors/index.js";
 
 // Export utilities
-export { isResponseObject } from "./utils/response.js";
-export type { ResponseObject } from "./utils/response.js";
+export { isResponseObject, isEarlyResponse, respond } from "./utils/response.js";
+export type { ResponseObject, EarlyResponse, RespondOptions } from "./utils/response.js";
+export { getRetryHistory } from "./utils/retry.js";
+export { isStreamingOutput } from "./utils/stream.js";
+export type { StreamFormat, StreamOptions } from "./utils/stream.js";
@@ -0,0 +1,128 @@
+/**
+ * NestJS bindings for typed-handler
+ */
+
+import { HttpException, Inject, type InjectionToken } from "@nestjs/common";
+import type { Handler } from "../handler.js";
+import { type ResponseObject, isResponseObject } from "../utils/response.js";
+
+// How errors mapped by the error handler are thrown back to Nest
+export type NestTransport = "http" | "rpc" | "event";
+
+export interface TypedHandlerOptions {
+	// Providers added to the handler context by name, e.g. { users: UsersService }
+	inject?: Record<string, InjectionToken>;
+	// Builds the handler input from the method arguments. Defaults to the first argument,
+	// which is the payload for @OnEvent and @MessagePattern methods
+	input?: (...args: unknown[]) => unknown;
+	// http throws HttpException, rpc throws RpcException and event rethrows the original error.
+	// Defaults to http
+	transport?: NestTransport;
+}
+
+// Initial context the decorated method passes to execute(), along with injected providers
+export interface NestContext {
+	// Arguments the method was called with, e.g. an RmqContext after the payload
+	args: unknown[];
+}
+
+const PROVIDER_KEY_PREFIX = "__typedHandler_";
+
+// The Express response or Fastify reply a route receives with @Res({ passthrough: true })
+interface HttpResponse {
+	status(code: number): unknown;
+	header(name: string, value: string): unknown;
+}
+
+function isHttpResponse(value: unknown): value is HttpResponse {
+	const candidate = value as Partial<HttpResponse> | null | undefined;
+	return typeof candidate?.status === "function" && typeof candidate.header === "function";
+}
+
+async function toNestException(
+	response: ResponseObject,
+	transport: NestTransport,
+): Promise<unknown> {
+	const body =
+		typeof response.body === "object" && response.body !== null
+			? (response.body as Record<string, unknown>)
+			: { message: response.body };
+	if (transport === "rpc") {
+		// Loaded on demand so HTTP-only apps do not need @nestjs/microservices
+		const { RpcException } = await import("@nestjs/microservices");
+		return new RpcException({ status: response.status, ...body });
+	}
+	return new HttpException(body, response.status);
+}
+
+/**
+ * Unwrap a ResponseObject for Nest's HTTP layer. Error statuses are thrown as HttpException,
+ * success statuses and headers are applied to the passthrough response when the method takes one.
+ */
+async function toHttpResult(response: ResponseObject, args: unknown[]): Promise<unknown> {
+	if (response.status >= 400) {
+		throw await toNestException(response, "http");
+	}
+	const res = args.find(isHttpResponse);
+	if (res) {
+		res.status(response.status);
+		Object.entries(response.headers ?? {}).forEach(([key, value]) => res.header(key, value));
+	}
+	return response.body;
+}
+
+/**
+ * Route calls to the decorated method through handler.execute(). The method body is not run,
+ * the handler's result is returned instead. Works for controller routes, @OnEvent listeners and
+ * @MessagePattern handlers, and can be combined with their decorators in any order.
+ *
+ * Errors the handler's error handler maps, like ValidationError and HandlerError, are thrown as
+ * HttpException or RpcException depending on the transport. Unmapped errors are rethrown.
+ * On the http transport, ResponseObject results are unwrapped to their body.
+ */
+export function TypedHandler<TInput, TContext, TOutput>(
+	handler: Handler<TInput, TContext, TOutput>,
+	options: TypedHandlerOptions = {},
+): MethodDecorator {
+	const { inject = {}, input = (payload: unknown) => payload, transport = "http" } = options;
+
+	return (target, propertyKey, descriptor) => {
+		// Providers are injected as properties, so the class constructor stays unchanged
+		for (const [name, token] of Object.entries(inject)) {
+			Inject(token)(target, `${PROVIDER_KEY_PREFIX}${name}`);
+		}
+
+		const original = descriptor.value as unknown as (...args: unknown[]) => unknown;
+		const method = async function (this: Record<string, unknown>, ...args: unknown[]) {
+			const providers = Object.fromEntries(
+				Object.keys(inject).map((name) => [name, this[`${PROVIDER_KEY_PREFIX}${name}`]]),
+			);
+			const context = { ...providers, args };
+			const value = input(...args);
+
+			let result: TOutput;
+			try {
+				result = await handler.execute(value as TInput, context as TContext);
+			} catch (error) {
+				const response =
+					transport === "event"
+						? undefined
+						: await handler.handleError(error, value, context as TContext);
+				if (response) {
+					throw await toNestException(response, transport);
+				}
+				throw error;
+			}
+			return transport === "http" && isResponseObject(result) ? toHttpResult(result, args) : result;
+		};
+
+		// Keep metadata set by decorators applied before this one, e.g. @MessagePattern below it
+		for (const key of Reflect.getMetadataKeys(original)) {
+			Reflect.defineMetadata(key, Reflect.getMetadata(key, original), method);
+		}
+		Object.defineProperty(method, "name", { value: String(propertyKey) });
+
+		descriptor.value = method as unknown as typeof descriptor.value;
+		return descriptor;
+	};
+}
@@ -0,0 +1,294 @@
+/**
+ * OpenAPI 3.1 document generation from handler descriptions
+ */
+
+import { type HandlerError, HttpError } from "./errors/index.js";
+import type { Handler } from "./handler.js";
+import type { InputSource, JSONSchema, SchemaDescription } from "./types.js";
+
+export type HttpMethod = "get" | "post" | "put" | "patch" | "delete" | "head" | "options";
+
+export interface OpenAPIRoute {
+	method: HttpMethod | Uppercase<HttpMethod>;
+	// Express-style path, e.g. /users/:id
+	path: string;
+	// biome-ignore lint/suspicious/noExplicitAny: Routes hold handlers of any shape
+	handler: Handler<any, any, any>;
+	// Errors the handler may throw, documented as error responses
+	errors?: Array<HandlerError | (new () => HandlerError)>;
+}
+
+export interface OpenAPIOptions {
+	info: { title: string; version: string; description?: string };
+	servers?: { url: string; description?: string }[];
+	routes: OpenAPIRoute[];
+}
+
+export interface OpenAPIParameter {
+	name: string;
+	in: "path" | "query" | "header";
+	required: boolean;
+	schema: JSONSchema;
+	description?: string;
+}
+
+export interface OpenAPIMediaType {
+	schema: JSONSchema;
+}
+
+export interface OpenAPIResponse {
+	description: string;
+	content?: Record<string, OpenAPIMediaType>;
+}
+
+export interface OpenAPIOperation {
+	operationId?: string;
+	summary?: string;
+	description?: string;
+	tags?: string[];
+	deprecated?: boolean;
+	parameters?: OpenAPIParameter[];
+	requestBody?: { required: boolean; content: Record<string, OpenAPIMediaType> };
+	responses: Record<string, OpenAPIResponse>;
+}
+
+export interface OpenAPIDocument {
+	openapi: "3.1.0";
+	info: OpenAPIOptions["info"];
+	servers?: OpenAPIOptions["servers"];
+	paths: Record<string, Partial<Record<HttpMethod, OpenAPIOperation>>>;
+	components?: { schemas: Record<string, JSONSchema> };
+}
+
+const COMPONENT_SCHEMAS: Record<string, JSONSchema> = {
+	ValidationError: {
+		type: "object",
+		properties: {
+			error: { type: "string" },
+			message: { type: "string" },
+			issues: {
+				type: "array",
+				items: {
+					type: "object",
+					properties: {
+						path: { type: "array", items: { type: ["string", "number"] } },
+						message: { type: "string" },
+						code: { type: "string" },
+						source: { type: "string", enum: ["body", "query", "params", "headers"] },
+					},
+					required: ["path", "message", "code"],
+				},
+			},
+		},
+		required: ["error", "message", "issues"],
+	},
+	ProblemDetails: {
+		type: "object",
+		properties: {
+			type: { type: "string" },
+			title: { type: "string" },
+			status: { type: "integer" },
+			detail: { type: "string" },
+			instance: { type: "string" },
+		},
+		required: ["type", "title", "status"],
+	},
+	HandlerError: {
+		type: "object",
+		properties: {
+			error: { type: "string" },
+			message: { type: "string" },
+			details: {},
+		},
+		required: ["error", "message"],
+	},
+};
+
+const PARAMETER_LOCATIONS: Partial<Record<InputSource, OpenAPIParameter["in"]>> = {
+	params: "path",
+	query: "query",
+	headers: "header",
+};
+
+// Reference a shared component schema, recording it for the components section
+function ref(name: string, refs: Set<string>): JSONSchema {
+	refs.add(name);
+	return { $ref: `#/components/schemas/${name}` };
+}
+
+function jsonSchemaOf(description?: SchemaDescription): JSONSchema {
+	return description?.jsonSchema ?? {};
+}
+
+/**
+ * Split a handler's output schema into responses by status. Variants shaped like a
+ * ResponseObject with a literal `status` document their `body` under that status,
+ * everything else is a 200 response.
+ */
+function successResponses(output?: SchemaDescription): Record<string, OpenAPIResponse> {
+	if (!output) {
+		return { "200": { description: "Successful response" } };
+	}
+
+	const schema = jsonSchemaOf(output);
+	const variants = schema.anyOf ?? schema.oneOf ?? [schema];
+	const byStatus = new Map<string, JSONSchema[]>();
+
+	for (const variant of variants) {
+		const { status, body } = variant.properties ?? {};
+		const statuses =
+			typeof status?.const === "number"
+				? [status.const]
+				: (status?.enum?.filter((value): value is number => typeof value === "number") ?? []);
+
+		for (const code of body && statuses.length > 0 ? statuses : [200]) {
+			const key = String(code);
+			byStatus.set(key, [
+				...(byStatus.get(key) ?? []),
+				body && statuses.length > 0 ? body : variant,
+			]);
+		}
+	}
+
+	const responses: Record<string, OpenAPIResponse> = {};
+	for (const [status, schemas] of byStatus) {
+		responses[status] = {
+			description: Number(status) < 300 ? "Successful response" : "Response",
+			content: {
+				"application/json": {
+					schema: schemas.length === 1 ? (schemas[0] ?? {}) : { anyOf: schemas },
+				},
+			},
+		};
+	}
+	return responses;
+}
+
+function errorResponse(error: HandlerError, refs: Set<string>): OpenAPIResponse {
+	if (error instanceof HttpError) {
+		return {
+			description: error.title,
+			content: { "application/problem+json": { schema: ref("ProblemDetails", refs) } },
+		};
+	}
+	return {
+		description: error.message,
+		content: { "application/json": { schema: ref("HandlerError", refs) } },
+	};
+}
+
+function parametersFor(
+	source: InputSource,
+	description: SchemaDescription | undefined,
+): OpenAPIParameter[] {
+	const location = PARAMETER_LOCATIONS[source];
+	const schema = jsonSchemaOf(description);
+	if (!location || !schema.properties) {
+		return [];
+	}
+
+	return Object.entries(schema.properties).map(([name, property]) => ({
+		name,
+		in: location,
+		required: location === "path" || (schema.required?.includes(name) ?? false),
+		schema: property,
+		...(property.description !== undefined && { description: property.description }),
+	}));
+}
+
+function buildOperation(
+	route: OpenAPIRoute,
+	pathParams: string[],
+	refs: Set<string>,
+): OpenAPIOperation {
+	const description = route.handler.describe();
+	const operation: OpenAPIOperation = { ...description.meta, responses: {} };
+	const parameters: OpenAPIParameter[] = [];
+	let body: SchemaDescription | undefined;
+
+	if (description.multiInput) {
+		const parts = description.input as Partial<Record<InputSource, SchemaDescription>>;
+		for (const source of ["params", "query", "headers"] as const) {
+			parameters.push(...parametersFor(source, parts[source]));
+		}
+		body = parts.body;
+	} else {
+		body = description.input as SchemaDescription | undefined;
+	}
+
+	for (const name of pathParams) {
+		if (!parameters.some((parameter) => parameter.in === "path" && parameter.name === name)) {
+			parameters.push({ name, in: "path", required: true, schema: { type: "string" } });
+		}
+	}
+
+	if (parameters.length > 0) {
+		operation.parameters = parameters;
+	}
+	if (body) {
+		operation.requestBody = {
+			required: true,
+			content: { "application/json": { schema: jsonSchemaOf(body) } },
+		};
+	}
+
+	operation.responses = successResponses(description.output);
+	if (description.input) {
+		operation.responses["400"] = {
+			description: "Validation failed",
+			content: { "application/json": { schema: ref("ValidationError", refs) } },
+		};
+	}
+
+	for (const entry of route.errors ?? []) {
+		const error = typeof entry === "function" ? new entry() : entry;
+		const status = String(error.statusCode);
+		const existing = operation.responses[status];
+		const response = errorResponse(error, refs);
+		operation.responses[status] = existing
+			? { ...existing, description: `${existing.description} or ${response.description}` }
+			: response;
+	}
+
+	return operation;
+}
+
+/**
+ * Generate an OpenAPI 3.1 document from handlers mounted on routes.
+ * Schemas are converted with each validator adapter's toJSONSchema.
+ */
+export function generateOpenAPI(options: OpenAPIOptions): OpenAPIDocument {
+	const paths: OpenAPIDocument["paths"] = {};
+	const refs = new Set<string>();
+
+	for (const route of options.routes) {
+		const method = route.method.toLowerCase() as HttpMethod;
+		const pathParams: string[] = [];
+		const path = route.path.replace(/:([A-Za-z0-9_]+)/g, (_match, name: string) => {
+			pathParams.push(name);
+			return `{${name}}`;
+		});
+
+		const item = paths[path] ?? {};
+		if (item[method]) {
+			throw new Error(`Duplicate route ${method.toUpperCase()} ${path}`);
+		}
+		item[method] = buildOperation(route, pathParams, refs);
+		paths[path] = item;
+	}
+
+	const document: OpenAPIDocument = {
+		openapi: "3.1.0",
+		info: options.info,
+		...(options.servers && { servers: options.servers }),
+		paths,
+	};
+
+	if (refs.size > 0) {
+		document.components = {
+			schemas: Object.fromEntries([...refs].map((name) => [name, COMPONENT_SCHEMAS[name] ?? {}])),
+		};
+	}
+
+	return document;
+}
@@ -0,0 +1,214 @@
+/**
+ * Framework-neutral router for mounting handlers onto Express, Fastify or Hono
+ */
+
+import type { IRouter } from "express";
+import type { FastifyInstance } from "fastify";
+import type { Hono } from "hono";
+import type { Handler } from "./handler.js";
+import type { Middleware } from "./types.js";
+import type { EarlyResponse } from "./utils/response.js";
+
+export type RouteMethod = "get" | "post" | "put" | "patch" | "delete";
+
+// biome-ignore lint/suspicious/noExplicitAny: Routes hold handlers of any shape
+export type AnyHandler = Handler<any, any, any>;
+
+export interface RouteDefinition {
+	method: RouteMethod;
+	// Full Express-style path including group prefixes, e.g. /admin/users/:id
+	path: string;
+	// Handler with the router's shared middleware applied
+	handler: AnyHandler;
+}
+
+// Type-level map of path -> method -> handler, read by typed clients
+export type RouteMap = Record<string, Partial<Record<RouteMethod, AnyHandler>>>;
+
+// Route map of a router with no routes
+export type EmptyRoutes = Record<never, never>;
+
+// Names of the `:param` segments in an Express-style path
+export type PathParams<TPath extends string> =
+	TPath extends `${string}:${infer Param}/${infer Rest}`
+		? Param | PathParams<`/${Rest}`>
+		: TPath extends `${string}:${infer Param}`
+			? Param
+			: never;
+
+// Keys of a handler's validated params input
+type HandlerParams<THandler> = THandler extends Handler<
+	infer TInput,
+	infer _TContext,
+	infer _TOutput
+>
+	? TInput extends { params: infer TParams }
+		? keyof TParams & string
+		: never
+	: never;
+
+// Resolves to unknown when every handler param appears in the path, otherwise to an object
+// type the handler is missing so the call fails to type-check with the missing names
+export type CheckParams<TPath extends string, THandler> = [
+	Exclude<HandlerParams<THandler>, PathParams<TPath>>,
+] extends [never]
+	? unknown
+	: { missingPathParams: Exclude<HandlerParams<THandler>, PathParams<TPath>> };
+
+type WithRoute<
+	TRoutes extends RouteMap,
+	TPath extends string,
+	TMethod extends RouteMethod,
+	THandler extends AnyHandler,
+> = TRoutes & Record<TPath, Record<TMethod, THandler>>;
+
+export class Router<
+	TContext = object,
+	TRoutes extends RouteMap = EmptyRoutes,
+	TPrefix extends string = "",
+> {
+	// biome-ignore lint/suspicious/noExplicitAny: Middleware chain requires flexibility
+	private middlewares: Middleware<any, any>[] = [];
+	private definitions: RouteDefinition[] = [];
+
+	constructor(private readonly prefix: TPrefix = "" as TPrefix) {}
+
+	private clone(): Router<TContext, TRoutes, TPrefix> {
+		const newRouter = new Router<TContext, TRoutes, TPrefix>(this.prefix);
+		newRouter.middlewares = [...this.middlewares];
+		newRouter.definitions = [...this.definitions];
+		return newRouter;
+	}
+
+	private add(
+		definitions: RouteDefinition[],
+		// biome-ignore lint/suspicious/noExplicitAny: Route types are tracked by the caller
+	): Router<TContext, any, TPrefix> {
+		const newRouter = this.clone();
+		for (const definition of definitions) {
+			if (
+				newRouter.definitions.some(
+					(existing) => existing.method === definition.method && existing.path === definition.path,
+				)
+			) {
+				throw new Error(`Duplicate route ${definition.method.toUpperCase()} ${definition.path}`);
+			}
+			newRouter.definitions.push(definition);
+		}
+		return newRouter;
+	}
+
+	private route<TMethod extends RouteMethod, TPath extends string, THandler extends AnyHandler>(
+		method: TMethod,
+		path: TPath,
+		handler: THandler,
+	): Router<TContext, WithRoute<TRoutes, `${TPrefix}${TPath}`, TMethod, THandler>, TPrefix> {
+		return this.add([
+			{
+				method,
+				path: `${this.prefix}${path}`,
+				handler: this.middlewares.length > 0 ? handler.withMiddleware(this.middlewares) : handler,
+			},
+		]);
+	}
+
+	/**
+	 * Add shared middleware to routes registered after it, including those in later groups
+	 */
+	use<TNewContext>(
+		middleware: Middleware<TContext, TNewContext | EarlyResponse>,
+	): Router<TContext & TNewContext, TRoutes, TPrefix> {
+		const newRouter = this.clone() as unknown as Router<TContext & TNewContext, TRoutes, TPrefix>;
+		newRouter.middlewares.push(middleware);
+		return newRouter;
+	}
+
+	get<TPath extends string, THandler extends AnyHandler>(
+		path: TPath,
+		handler: THandler & CheckParams<`${TPrefix}${TPath}`, THandler>,
+	) {
+		return this.route("get", path, handler as THandler);
+	}
+
+	post<TPath extends string, THandler extends AnyHandler>(
+		path: TPath,
+		handler: THandler & CheckParams<`${TPrefix}${TPath}`, THandler>,
+	) {
+		return this.route("post", path, handler as THandler);
+	}
+
+	put<TPath extends string, THandler extends AnyHandler>(
+		path: TPath,
+		handler: THandler & CheckParams<`${TPrefix}${TPath}`, THandler>,
+	) {
+		return this.route("put", path, handler as THandler);
+	}
+
+	patch<TPath extends string, THandler extends AnyHandler>(
+		path: TPath,
+		handler: THandler & CheckParams<`${TPrefix}${TPath}`, THandler>,
+	) {
+		return this.route("patch", path, handler as THandler);
+	}
+
+	delete<TPath extends string, THandler extends AnyHandler>(
+		path: TPath,
+		handler: THandler & CheckParams<`${TPrefix}${TPath}`, THandler>,
+	) {
+		return this.route("delete", path, handler as THandler);
+	}
+
+	/**
+	 * Register routes under a path prefix. The group starts with this router's shared
+	 * middleware, and middleware added inside the group stays in the group.
+	 */
+	group<TGroupPrefix extends string, TGroupRoutes extends RouteMap>(
+		prefix: TGroupPrefix,
+		build: (
+			router: Router<TContext, EmptyRoutes, `${TPrefix}${TGroupPrefix}`>,
+			// biome-ignore lint/suspicious/noExplicitAny: The group's context is not tracked outside it
+		) => Router<any, TGroupRoutes, `${TPrefix}${TGroupPrefix}`>,
+	): Router<TContext, TRoutes & TGroupRoutes, TPrefix> {
+		const child = new Router<TContext, EmptyRoutes, `${TPrefix}${TGroupPrefix}`>(
+			`${this.prefix}${prefix}`,
+		);
+		child.middlewares = [...this.middlewares];
+		return this.add(build(child).routes());
+	}
+
+	/**
+	 * Registered routes with full paths, e.g. for generateOpenAPI({ routes: router.routes() })
+	 */
+	routes(): RouteDefinition[] {
+		return [...this.definitions];
+	}
+
+	async toExpress(app: IRouter): Promise<void> {
+		const { toExpress } = await import("./adapters/express.js");
+		for (const { method, path, handler } of this.definitions) {
+			app[method](path, toExpress(handler));
+		}
+	}
+
+	async toFastify(instance: FastifyInstance): Promise<void> {
+		const { toFastify } = await import("./adapters/fastify.js");
+		for (const { method, path, handler } of this.definitions) {
+			instance.route({ method: method.toUpperCase(), url: path, handler: toFastify(handler) });
+		}
+	}
+
+	// biome-ignore lint/suspicious/noExplicitAny: Accept Hono apps with any env and schema
+	async toHono(app: Hono<any, any, any>): Promise<void> {
+		const { toHono } = await import("./adapters/hono.js");
+		for (const { method, path, handler } of this.definitions) {
+			app.on(method.toUpperCase(), path, toHono(handler));
+		}
+	}
+}
+
+/**
+ * Factory function to create a new router
+ */
+export function router<TContext = object>(): Router<TContext, EmptyRoutes, ""> {
+	return new Router<TContext, EmptyRoutes, "">();
+}
@@ -0,0 +1,136 @@
+/**
+ * Fake framework request and response objects for running adapters without a server
+ */
+
+import type { NextFunction, Request, Response } from "express";
+import type { FastifyReply, FastifyRequest } from "fastify";
+import type { Context } from "hono";
+
+export interface FakeRequestInit {
+	body?: unknown;
+	query?: Record<string, unknown>;
+	params?: Record<string, string>;
+	headers?: Record<string, string>;
+}
+
+// What an adapter wrote to a fake response
+export interface FakeResponse {
+	status: number;
+	body: unknown;
+	headers: Record<string, string>;
+	// Error passed to Express next() or thrown by the adapter
+	error?: unknown;
+}
+
+function createResponse(): FakeResponse {
+	return { status: 200, body: undefined, headers: {} };
+}
+
+function lowercaseHeaders(headers: Record<string, string> = {}): Record<string, string> {
+	return Object.fromEntries(
+		Object.entries(headers).map(([key, value]) => [key.toLowerCase(), value]),
+	);
+}
+
+/**
+ * Fake Express `req`, `res` and `next` recording into `response`
+ */
+export function fakeExpress(init: FakeRequestInit = {}) {
+	const response = createResponse();
+	const req = {
+		body: init.body,
+		query: init.query ?? {},
+		params: init.params ?? {},
+		headers: lowercaseHeaders(init.headers),
+	};
+	const res = {
+		status(code: number) {
+			response.status = code;
+			return res;
+		},
+		set(key: string | Record<string, string>, value?: string) {
+			const entries = typeof key === "string" ? { [key]: value ?? "" } : key;
+			Object.assign(response.headers, entries);
+			return res;
+		},
+		json(body: unknown) {
+			response.body = body;
+			return res;
+		},
+	};
+	const next = (error?: unknown) => {
+		if (error !== undefined) {
+			response.error = error;
+		}
+	};
+
+	return {
+		req: req as unknown as Request,
+		res: res as unknown as Response,
+		next: next as NextFunction,
+		response,
+	};
+}
+
+/**
+ * Fake Fastify `request` and `reply` recording into `response`
+ */
+export function fakeFastify(init: FakeRequestInit = {}) {
+	const response = createResponse();
+	const request = {
+		body: init.body,
+		query: init.query ?? {},
+		params: init.params ?? {},
+		headers: lowercaseHeaders(init.headers),
+	};
+	const reply = {
+		sent: false,
+		status(code: number) {
+			response.status = code;
+			return reply;
+		},
+		header(key: string, value: string) {
+			response.headers[key] = value;
+			return reply;
+		},
+		send(body: unknown) {
+			response.body = body;
+			reply.sent = true;
+			return reply;
+		},
+	};
+
+	return {
+		request: request as unknown as FastifyRequest,
+		reply: reply as unknown as FastifyReply,
+		response,
+	};
+}
+
+/**
+ * Fake Hono context `c` recording into `response`
+ */
+export function fakeHono(init: FakeRequestInit = {}) {
+	const response = createResponse();
+	const write = (body: unknown, status?: number, headers?: Record<string, string>) => {
+		response.body = body;
+		response.status = status ?? 200;
+		Object.assign(response.headers, headers);
+		return response;
+	};
+	const c = {
+		req: {
+			json: async () => init.body,
+			query: () => init.query ?? {},
+			param: () => init.params ?? {},
+			raw: { headers: new Headers(init.headers) },
+		},
+		header(key: string, value: string) {
+			response.headers[key] = value;
+		},
+		json: write,
+		body: write,
+	};
+
+	return { c: c as unknown as Context, response };
+}
@@ -0,0 +1,9 @@
+/**
+ * Testing helpers for typed-handler
+ */
+
+export { HandlerTester, testHandler } from "./tester.js";
+export { fakeExpress, fakeFastify, fakeHono } from "./fakes.js";
+
+export type { TestResult } from "./tester.js";
+export type { FakeRequestInit, FakeResponse } from "./fakes.js";
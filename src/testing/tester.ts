@@ -0,0 +1,153 @@
+/**
+ * testHandler() - run a handler in tests with context, middleware stubs and stage spies
+ */
+
+import { toExpress } from "../adapters/express.js";
+import { toFastify } from "../adapters/fastify.js";
+import { toHono } from "../adapters/hono.js";
+import type { Handler } from "../handler.js";
+import type { ExecuteOptions, ExecutionStage, SafeResult } from "../types.js";
+import {
+	type FakeRequestInit,
+	type FakeResponse,
+	fakeExpress,
+	fakeFastify,
+	fakeHono,
+} from "./fakes.js";
+
+// safeExecute() result with the pipeline stages that ran, in the order they were first entered
+export type TestResult<TOutput> = SafeResult<TOutput> & { stages: ExecutionStage[] };
+
+export class HandlerTester<TInput, TContext, TOutput> {
+	constructor(
+		private readonly target: Handler<TInput, TContext, TOutput>,
+		private readonly initialContext: Partial<TContext> = {},
+	) {}
+
+	/**
+	 * Merge partial context into the initial context of every run
+	 */
+	context(context: Partial<TContext>): HandlerTester<TInput, TContext, TOutput> {
+		return new HandlerTester(this.target, { ...this.initialContext, ...context });
+	}
+
+	/**
+	 * Replace the middleware named `name` with another implementation of the same kind
+	 */
+	override(
+		name: string,
+		// biome-ignore lint/suspicious/noExplicitAny: Replacements take the signature of the middleware kind
+		middleware: (...args: any[]) => unknown,
+	): HandlerTester<TInput, TContext, TOutput> {
+		return new HandlerTester(
+			this.target.replaceMiddleware(name, () => middleware),
+			this.initialContext,
+		);
+	}
+
+	/**
+	 * Replace the middleware named `name` with one that only adds `context`
+	 */
+	stub(name: string, context: Partial<TContext>): HandlerTester<TInput, TContext, TOutput> {
+		return new HandlerTester(
+			this.target.replaceMiddleware(name, (kind) => {
+				if (kind === "before") {
+					return () => ({ context });
+				}
+				if (kind === "around") {
+					return (_input: unknown, _context: unknown, next: (patch: object) => unknown) =>
+						next(context);
+				}
+				return () => context;
+			}),
+			this.initialContext,
+		);
+	}
+
+	/**
+	 * The handler with overrides and stubs applied
+	 */
+	handler(): Handler<TInput, TContext, TOutput> {
+		return this.target;
+	}
+
+	/**
+	 * Execute without throwing, recording the stages that ran
+	 */
+	async execute(input: unknown, options: ExecuteOptions = {}): Promise<TestResult<TOutput>> {
+		const stages: ExecutionStage[] = [];
+		const result = await this.target.safeExecute(input, this.initialContext, {
+			...options,
+			onStage: (stage) => {
+				if (!stages.includes(stage)) {
+					stages.push(stage);
+				}
+				options.onStage?.(stage);
+			},
+		});
+		return { ...result, stages };
+	}
+
+	/**
+	 * Validate a value against the output schema, even when validateOutput is disabled.
+	 * Rejects with the ValidationError.
+	 */
+	async assertOutput(value: unknown): Promise<TOutput> {
+		return this.target.parseOutput(value);
+	}
+
+	/**
+	 * Run the handler through the Express adapter with fake `req`, `res` and `next`
+	 */
+	async express(init?: FakeRequestInit): Promise<FakeResponse> {
+		const { req, res, next, response } = fakeExpress(init);
+		await toExpress(this.withContext())(req, res, next);
+		return response;
+	}
+
+	/**
+	 * Run the handler through the Fastify adapter with a fake `request` and `reply`
+	 */
+	async fastify(init?: FakeRequestInit): Promise<FakeResponse> {
+		const { request, reply, response } = fakeFastify(init);
+		try {
+			const returned = await toFastify(this.withContext())(request, reply);
+			if (!reply.sent && returned !== undefined) {
+				response.body = returned;
+			}
+		} catch (error) {
+			response.error = error;
+		}
+		return response;
+	}
+
+	/**
+	 * Run the handler through the Hono adapter with a fake context
+	 */
+	async hono(init?: FakeRequestInit): Promise<FakeResponse> {
+		const { c, response } = fakeHono(init);
+		try {
+			await toHono(this.withContext())(c);
+		} catch (error) {
+			response.error = error;
+		}
+		return response;
+	}
+
+	// Adapters build their own initial context, so injected context comes from shared middleware
+	private withContext(): Handler<TInput, TContext, TOutput> {
+		if (Object.keys(this.initialContext).length === 0) {
+			return this.target;
+		}
+		return this.target.withMiddleware([() => this.initialContext]);
+	}
+}
+
+/**
+ * Wrap a handler for testing
+ */
+export function testHandler<TInput, TContext, TOutput>(
+	handler: Handler<TInput, TContext, TOutput>,
+): HandlerTester<TInput, TContext, TOutput> {
+	return new HandlerTester(handler);
+}
@@ -2,6 +2,8 @@
  * Core type definitions for typed-handler
  */
 
+import type { EarlyResponse, ResponseObject } from "./utils/response.js";
+
 // Handler function type
 export type HandlerFunction<TInput, TContext, TOutput> = (
 	input: TInput,
@@ -14,19 +16,194 @@ export type Middleware<TContext, TNewContext = object> = (
 	context: TContext,
 ) => Promise<TNewContext> | TNewContext;
 
+// Kinds of middleware a handler can register
+export type MiddlewareKind = "before" | "use" | "around";
+
+// Options for use() middleware
+export interface MiddlewareOptions {
+	// "batch" runs the middleware once per executeMany() call instead of once per item
+	scope?: "item" | "batch";
+}
+
+declare const aroundContext: unique symbol;
+
+// Output of next() in around(), tagged with the context passed to it so around() can infer
+// the added context from what the middleware returns
+export type AroundResult<TOutput, TNewContext> = TOutput & {
+	readonly [aroundContext]?: TNewContext;
+};
+
+// Around middleware type, wraps the rest of the pipeline through next()
+export type AroundMiddleware<TInput, TContext, TOutput, TNewContext = object> = (
+	input: TInput,
+	context: TContext,
+	next: <TNext extends object = object>(context?: TNext) => Promise<AroundResult<TOutput, TNext>>,
+) => Promise<AroundResult<TOutput, TNewContext>> | AroundResult<TOutput, TNewContext>;
+
+// Before middleware result, replaces the raw input and/or extends the context
+export interface BeforeResult<TNewContext = object> {
+	input?: unknown;
+	context?: TNewContext;
+}
+
+// Before middleware type, runs on the raw input before validation
+export type BeforeMiddleware<TContext, TNewContext = object> = (
+	input: unknown,
+	context: TContext,
+) =>
+	| Promise<BeforeResult<TNewContext> | EarlyResponse | undefined>
+	| BeforeResult<TNewContext>
+	| EarlyResponse
+	| undefined;
+
 // Transform function type
 export type TransformFunction<TContext, TInput, TOutput> = (
 	data: TInput,
 	context: TContext,
 ) => Promise<TOutput> | TOutput;
 
+// Error handler type, maps a failure to a response (undefined leaves it to the framework)
+export type ErrorHandler<TContext = object> = (
+	error: unknown,
+	input: unknown,
+	context: Partial<TContext>,
+) => Promise<ResponseObject | undefined> | ResponseObject | undefined;
+
+// Lifecycle hook types
+export type OnRequestHook<TContext = object> = (
+	input: unknown,
+	context: Partial<TContext>,
+) => Promise<void> | void;
+
+export type BeforeHandleHook<TInput = unknown, TContext = object> = (
+	input: TInput,
+	context: TContext,
+) => Promise<void> | void;
+
+// Returning a value replaces the handler output
+export type AfterHandleHook<TInput = unknown, TContext = object, TOutput = unknown> = (
+	input: TInput,
+	context: TContext,
+	output: TOutput,
+) => Promise<TOutput | undefined> | TOutput | undefined;
+
+export type ExecutionResult<TOutput = unknown> =
+	| { output: TOutput; error?: undefined }
+	| { output?: undefined; error: unknown };
+
+export type OnResponseHook<TContext = object, TOutput = unknown> = (
+	input: unknown,
+	context: Partial<TContext>,
+	result: ExecutionResult<TOutput>,
+) => Promise<void> | void;
+
+export interface LifecycleHooks<TInput = unknown, TContext = object, TOutput = unknown> {
+	onRequest?: OnRequestHook<TContext>;
+	beforeHandle?: BeforeHandleHook<TInput, TContext>;
+	afterHandle?: AfterHandleHook<TInput, TContext, TOutput>;
+	onResponse?: OnResponseHook<TContext, TOutput>;
+}
+
+// JSON Schema (draft 2020-12, as used by OpenAPI 3.1)
+export interface JSONSchema {
+	type?: string | string[];
+	properties?: Record<string, JSONSchema>;
+	required?: string[];
+	additionalProperties?: boolean | JSONSchema;
+	items?: JSONSchema;
+	prefixItems?: JSONSchema[];
+	anyOf?: JSONSchema[];
+	allOf?: JSONSchema[];
+	oneOf?: JSONSchema[];
+	enum?: unknown[];
+	const?: unknown;
+	format?: string;
+	pattern?: string;
+	minLength?: number;
+	maxLength?: number;
+	minimum?: number;
+	maximum?: number;
+	exclusiveMinimum?: number;
+	exclusiveMaximum?: number;
+	multipleOf?: number;
+	minItems?: number;
+	maxItems?: number;
+	default?: unknown;
+	title?: string;
+	description?: string;
+	[keyword: string]: unknown;
+}
+
 // Validator adapter interface
 export interface ValidatorAdapter<T> {
 	parse: (schema: unknown, data: unknown) => Promise<T> | T;
 	detect?: (schema: unknown) => boolean;
+	formatIssues?: (error: unknown) => ValidationIssue[];
+	// Convert a schema to JSON Schema, used for OpenAPI generation
+	toJSONSchema?: (schema: unknown) => JSONSchema;
 	name?: string;
 }
 
+// Pipeline stage an execution failed in, as reported by safeExecute()
+export type ExecutionStage = "input" | "middleware" | "handler" | "transform" | "output";
+
+// Result of safeExecute(), which never rejects
+export type SafeResult<TOutput> =
+	| { ok: true; value: TOutput }
+	| { ok: false; error: unknown; stage: ExecutionStage };
+
+// Options for a single execute() call
+export interface ExecuteOptions {
+	// Aborts the execution, exposed to middleware and handlers as ctx.signal
+	signal?: AbortSignal;
+	// Called each time execution enters a pipeline stage, e.g. for test spies or tracing
+	onStage?: (stage: ExecutionStage) => void;
+}
+
+// Result for one executeMany() item; items after a stopOnError failure are skipped
+export type BatchItemResult<TOutput> = SafeResult<TOutput> | { ok: false; skipped: true };
+
+// Progress reported after each executeMany() item settles
+export interface BatchProgress<TOutput> {
+	index: number;
+	result: SafeResult<TOutput>;
+	completed: number;
+	total: number;
+}
+
+// Options for executeMany()
+export interface BatchOptions<TContext, TOutput> extends ExecuteOptions {
+	// Maximum number of items in flight (default 1)
+	concurrency?: number;
+	// Skip items that have not started once an item fails
+	stopOnError?: boolean;
+	// Initial context shared by every item
+	context?: Partial<TContext>;
+	onProgress?: (progress: BatchProgress<TOutput>) => void;
+}
+
+// Retry policy for the handler and transform section
+export interface RetryOptions {
+	// Total number of attempts, including the first one
+	attempts: number;
+	backoff?: "exponential" | "fixed";
+	// Base delay in milliseconds (default 100)
+	delay?: number;
+	// Upper bound for exponential delays in milliseconds
+	maxDelay?: number;
+	// Randomize each delay between 0 and its computed value
+	jitter?: boolean;
+	retryOn?: (error: unknown, attempt: number) => boolean;
+}
+
+// One failed attempt, recorded in the history attached to the final error
+export interface RetryAttempt {
+	attempt: number;
+	error: unknown;
+	// Delay before the next attempt, absent for the last one
+	delay?: number;
+}
+
 // Multi-input type for handling different request parts
 export type MultiInput<T = unknown> = {
 	body?: T;
@@ -35,6 +212,47 @@ export type MultiInput<T = unknown> = {
 	headers?: T;
 };
 
+// Request part a multi-input value was read from
+export type InputSource = keyof MultiInput;
+
+// Normalized validation issue, independent of the validator library
+export interface ValidationIssue {
+	path: (string | number)[];
+	message: string;
+	code: string;
+	source?: InputSource;
+}
+
+// Descriptive handler metadata, set with meta()
+export interface HandlerMeta {
+	operationId?: string;
+	summary?: string;
+	description?: string;
+	tags?: string[];
+	deprecated?: boolean;
+}
+
+// A schema together with the name of the adapter that validates it
+export interface SchemaDescription {
+	schema: unknown;
+	// Explicit or detected adapter name, undefined when no adapter matches
+	adapter?: string;
+	// Set when the adapter implements toJSONSchema
+	jsonSchema?: JSONSchema;
+}
+
+// Snapshot of a handler's configuration, returned by describe()
+export interface HandlerDescription {
+	meta: HandlerMeta;
+	multiInput: boolean;
+	// One schema, or one per request part for multi-input handlers
+	input?: SchemaDescription | Partial<Record<InputSource, SchemaDescription>>;
+	output?: SchemaDescription;
+	middleware: { before: number; use: number; around: number };
+	// Includes hooks from the global configuration
+	hooks: Record<keyof LifecycleHooks, number>;
+}
+
 // Logger interface
 export interface Logger {
 	error(message: string, meta?: unknown): void;
@@ -47,21 +265,54 @@ export interface Logger {
 export interface HandlerConfig {
 	validateInput: boolean;
 	validateOutput: boolean;
+	// Stop multi-input validation at the first failing part instead of reporting all parts
+	failFast: boolean;
+	errorHandler: ErrorHandler;
+	// Global lifecycle hooks, run before the handler's own hooks
+	hooks: LifecycleHooks;
 	logger: Logger;
 }
 
-// Type inference helpers
-export type InferInput<V> = V extends { parse: (data: unknown) => infer T }
+// Standard Schema (https://standardschema.dev) interface, implemented by Zod, Valibot, ArkType and others
+export interface StandardSchemaV1<TInput = unknown, TOutput = TInput> {
+	readonly "~standard": {
+		readonly version: 1;
+		readonly vendor: string;
+		readonly validate: (
+			value: unknown,
+		) => StandardSchemaV1.Result<TOutput> | Promise<StandardSchemaV1.Result<TOutput>>;
+		readonly types?: { readonly input: TInput; readonly output: TOutput } | undefined;
+	};
+}
+
+export declare namespace StandardSchemaV1 {
+	type Result<TOutput> =
+		| { readonly value: TOutput; readonly issues?: undefined }
+		| { readonly issues: ReadonlyArray<Issue> };
+
+	interface Issue {
+		readonly message: string;
+		readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined;
+	}
+}
+
+// Type inference helpers. Schemas none of the rules match infer as unknown, so a handler with a
+// custom schema still gets a usable input type
+export type InferInput<V> = V extends {
+	readonly "~standard": { readonly types?: { readonly output: infer T } | undefined };
+}
 	? T
-	: V extends { parseAsync: (data: unknown) => Promise<infer T> }
+	: V extends { parse: (data: unknown) => infer T }
 		? T
-		: V extends { validate: (data: unknown) => { value: infer T } }
+		: V extends { parseAsync: (data: unknown) => Promise<infer T> }
 			? T
-			: V extends { validateAsync: (data: unknown) => Promise<{ value: infer T }> }
+			: V extends { validate: (data: unknown) => { value: infer T } }
 				? T
-				: V extends { validateSync: (data: unknown) => infer T }
+				: V extends { validateAsync: (data: unknown) => Promise<{ value: infer T }> }
 					? T
-					: never;
+					: V extends { validateSync: (data: unknown) => infer T }
+						? T
+						: unknown;
 
 export type InferOutput<V> = InferInput<V>;
 
@@ -0,0 +1,93 @@
+/**
+ * Cancellation utilities for handler execution
+ */
+
+import { AbortError, TimeoutError } from "../errors/index.js";
+
+export interface AbortScope {
+	signal: AbortSignal;
+	race<T>(promise: Promise<T>): Promise<T>;
+	dispose(): void;
+}
+
+/**
+ * Combine an external signal and a timeout into one signal for an execution.
+ * Returns undefined when neither is set.
+ */
+export function createAbortScope(options: {
+	signal?: AbortSignal;
+	timeout?: number;
+}): AbortScope | undefined {
+	const { signal: external, timeout } = options;
+	if (!external && timeout === undefined) {
+		return undefined;
+	}
+
+	const controller = new AbortController();
+	const abort = (reason: Error) => {
+		if (!controller.signal.aborted) {
+			controller.abort(reason);
+		}
+	};
+	const onExternalAbort = () => abort(new AbortError(external?.reason));
+
+	if (external?.aborted) {
+		onExternalAbort();
+	} else {
+		external?.addEventListener("abort", onExternalAbort, { once: true });
+	}
+
+	const timer =
+		timeout !== undefined ? setTimeout(() => abort(new TimeoutError(timeout)), timeout) : undefined;
+
+	return {
+		signal: controller.signal,
+		race: <T>(promise: Promise<T>) =>
+			new Promise<T>((resolve, reject) => {
+				if (controller.signal.aborted) {
+					promise.catch(() => {});
+					reject(controller.signal.reason);
+					return;
+				}
+				controller.signal.addEventListener("abort", () => reject(controller.signal.reason), {
+					once: true,
+				});
+				promise.then(resolve, reject);
+			}),
+		dispose: () => {
+			clearTimeout(timer);
+			external?.removeEventListener("abort", onExternalAbort);
+		},
+	};
+}
+
+interface ClosableResponse {
+	on(event: "close", listener: () => void): unknown;
+	off(event: "close", listener: () => void): unknown;
+	writableFinished?: boolean;
+}
+
+/**
+ * Create a signal that aborts when a Node response closes before it was finished,
+ * which happens when the client disconnects
+ */
+export function abortOnClose(response: unknown): { signal?: AbortSignal; dispose(): void } {
+	const target = response as Partial<ClosableResponse> | undefined;
+	if (typeof target?.on !== "function" || typeof target.off !== "function") {
+		return { signal: undefined, dispose: () => {} };
+	}
+
+	const closable = target as ClosableResponse;
+	const controller = new AbortController();
+	const onClose = () => {
+		if (!closable.writableFinished) {
+			controller.abort();
+		}
+	};
+	closable.on("close", onClose);
+
+	return {
+		signal: controller.signal,
+		dispose: () => closable.off("close", onClose),
+	};
+}
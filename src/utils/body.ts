@@ -0,0 +1,43 @@
+/**
+ * Request body and query parsing shared by adapters that receive raw requests
+ */
+
+import { BadRequestError } from "../errors/index.js";
+
+/**
+ * Collect entries into an object, turning repeated keys into arrays like Express query parsing
+ */
+export function entriesToObject(entries: Iterable<[string, unknown]>): Record<string, unknown> {
+	const result: Record<string, unknown> = {};
+	for (const [key, value] of entries) {
+		const existing = result[key];
+		if (existing === undefined) {
+			result[key] = value;
+		} else {
+			result[key] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+		}
+	}
+	return result;
+}
+
+/**
+ * Parse a request body by content type: JSON, URL-encoded forms, or text for anything else.
+ * Empty bodies parse to undefined and invalid JSON throws a BadRequestError.
+ */
+export function parseBodyText(text: string, contentType = ""): unknown {
+	if (!text) {
+		return undefined;
+	}
+	const type = contentType.toLowerCase();
+	if (type.includes("json")) {
+		try {
+			return JSON.parse(text);
+		} catch {
+			throw new BadRequestError("Invalid JSON body");
+		}
+	}
+	if (type.startsWith("application/x-www-form-urlencoded")) {
+		return entriesToObject(new URLSearchParams(text));
+	}
+	return text;
+}
@@ -2,6 +2,15 @@
  * Response object utilities
  */
 
+import {
+	type WritableResponse,
+	isAsyncIterable,
+	isReadableStream,
+	toAsyncIterable,
+	toReadableStream,
+	writeToResponse,
+} from "./stream.js";
+
 export interface ResponseObject<T = unknown> {
 	status: number;
 	body: T;
@@ -17,3 +26,119 @@ export function isResponseObject(obj: unknown): obj is ResponseObject {
 		typeof (obj as ResponseObject).status === "number"
 	);
 }
+
+const EARLY_RESPONSE = Symbol("typed-handler.earlyResponse");
+
+export interface RespondOptions {
+	headers?: Record<string, string>;
+	// Skip transform and output validation for this response
+	bypass?: boolean;
+}
+
+/**
+ * ResponseObject returned from middleware to end the pipeline early
+ */
+export interface EarlyResponse extends ResponseObject {
+	readonly [EARLY_RESPONSE]: { bypass: boolean };
+}
+
+/**
+ * Create a response that a middleware can return to skip the remaining
+ * middleware and the handler function
+ */
+export function respond(
+	status: number,
+	body: unknown,
+	options: RespondOptions = {},
+): EarlyResponse {
+	const response: ResponseObject = { status, body };
+	if (options.headers) {
+		response.headers = options.headers;
+	}
+	return Object.defineProperty(response, EARLY_RESPONSE, {
+		value: { bypass: options.bypass ?? false },
+		enumerable: false,
+	}) as EarlyResponse;
+}
+
+export function isEarlyResponse(obj: unknown): obj is EarlyResponse {
+	return isResponseObject(obj) && EARLY_RESPONSE in obj;
+}
+
+export function bypassesOutput(obj: unknown): boolean {
+	return isEarlyResponse(obj) && obj[EARLY_RESPONSE].bypass;
+}
+
+// Bodies sent as they are, without JSON serialization
+export type RawBody = string | Uint8Array | ReadableStream | AsyncIterable<string | Uint8Array>;
+
+// How an adapter writes a ResponseObject body
+export type ResponseBody =
+	| { kind: "empty" }
+	| { kind: "raw"; value: RawBody }
+	// contentType is the response's own JSON Content-Type or application/json
+	| { kind: "json"; value: unknown; contentType: string };
+
+/**
+ * Read a header case-insensitively, e.g. the Content-Type of a ResponseObject
+ */
+export function getHeader(
+	headers: Record<string, string> | undefined,
+	name: string,
+): string | undefined {
+	const lower = name.toLowerCase();
+	return Object.entries(headers ?? {}).find(([key]) => key.toLowerCase() === lower)?.[1];
+}
+
+/**
+ * Decide how a ResponseObject body is sent, so every adapter sends the same bytes.
+ * Responses without a body or with a 204/304 status send no content. Strings, bytes and streams
+ * are sent as they are when the response sets a non-JSON Content-Type. Anything else is sent as
+ * JSON, with an application/json Content-Type when none is set.
+ */
+export function toResponseBody(response: ResponseObject): ResponseBody {
+	if (response.body === undefined || response.status === 204 || response.status === 304) {
+		return { kind: "empty" };
+	}
+	const contentType = getHeader(response.headers, "content-type");
+	if (contentType && !contentType.toLowerCase().includes("json")) {
+		const { body } = response;
+		if (body instanceof ArrayBuffer) {
+			return { kind: "raw", value: new Uint8Array(body) };
+		}
+		if (
+			typeof body === "string" ||
+			body instanceof Uint8Array ||
+			isReadableStream(body) ||
+			isAsyncIterable(body)
+		) {
+			return { kind: "raw", value: body as RawBody };
+		}
+	}
+	return { kind: "json", value: response.body, contentType: contentType ?? "application/json" };
+}
+
+/**
+ * A raw body as a web Response body. Bytes are copied into an ArrayBuffer, which every
+ * Response body type accepts, and async iterables are read through a ReadableStream.
+ */
+export function toWebBody(body: RawBody): string | ArrayBuffer | ReadableStream {
+	if (typeof body === "string" || isReadableStream(body)) {
+		return body;
+	}
+	if (body instanceof Uint8Array) {
+		return body.slice().buffer;
+	}
+	return toReadableStream(body);
+}
+
+/**
+ * Write a raw body to a Node response, streaming ReadableStreams and async iterables
+ */
+export async function writeRawBody(body: RawBody, res: WritableResponse): Promise<void> {
+	if (typeof body === "string" || body instanceof Uint8Array) {
+		res.end(body);
+		return;
+	}
+	await writeToResponse(toAsyncIterable(body as AsyncIterable<string | Uint8Array>), res);
+}
@@ -0,0 +1,99 @@
+/**
+ * Retry utilities for handler execution
+ */
+
+import type { RetryAttempt, RetryOptions } from "../types.js";
+
+const RETRY_HISTORY = Symbol("typed-handler.retryHistory");
+
+const DEFAULT_DELAY = 100;
+
+export function validateRetryOptions(options: RetryOptions): void {
+	if (!Number.isInteger(options.attempts) || options.attempts < 1) {
+		throw new Error("Retry attempts must be a positive integer");
+	}
+	if (options.delay !== undefined && (!Number.isFinite(options.delay) || options.delay < 0)) {
+		throw new Error("Retry delay must be a non-negative number of milliseconds");
+	}
+}
+
+export function retryDelay(options: RetryOptions, attempt: number): number {
+	const base = options.delay ?? DEFAULT_DELAY;
+	let delay = options.backoff === "exponential" ? base * 2 ** (attempt - 1) : base;
+	if (options.maxDelay !== undefined) {
+		delay = Math.min(delay, options.maxDelay);
+	}
+	return options.jitter ? Math.round(Math.random() * delay) : delay;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve) => {
+		if (ms <= 0 || signal?.aborted) {
+			resolve();
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			resolve();
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
+
+function attachHistory(error: unknown, history: RetryAttempt[]): void {
+	if (typeof error === "object" && error !== null && Object.isExtensible(error)) {
+		Object.defineProperty(error, RETRY_HISTORY, { value: history, configurable: true });
+	}
+}
+
+/**
+ * Get the failed attempts recorded on an error thrown by a handler with a retry policy
+ */
+export function getRetryHistory(error: unknown): RetryAttempt[] | undefined {
+	if (typeof error !== "object" || error === null) {
+		return undefined;
+	}
+	return (error as { [RETRY_HISTORY]?: RetryAttempt[] })[RETRY_HISTORY];
+}
+
+/**
+ * Run fn until it succeeds, the policy gives up, or the signal aborts.
+ * The final error carries the history of every failed attempt.
+ */
+export async function withRetry<T>(
+	options: RetryOptions,
+	fn: (attempt: number) => Promise<T>,
+	hooks: { signal?: AbortSignal; onRetry?: (entry: RetryAttempt) => void } = {},
+): Promise<T> {
+	const history: RetryAttempt[] = [];
+
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await fn(attempt);
+		} catch (error) {
+			const retry =
+				attempt < options.attempts &&
+				!hooks.signal?.aborted &&
+				(options.retryOn ? options.retryOn(error, attempt) : true);
+
+			if (!retry) {
+				history.push({ attempt, error });
+				attachHistory(error, history);
+				throw error;
+			}
+
+			const entry = { attempt, error, delay: retryDelay(options, attempt) };
+			history.push(entry);
+			hooks.onRetry?.(entry);
+			await sleep(entry.delay, hooks.signal);
+			if (hooks.signal?.aborted) {
+				attachHistory(error, history);
+				throw error;
+			}
+		}
+	}
+}
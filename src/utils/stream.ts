@@ -0,0 +1,196 @@
+/**
+ * Streaming output utilities
+ */
+
+export type StreamFormat = "sse" | "ndjson";
+
+// Options for the stream() builder stage
+export interface StreamOptions {
+	format: StreamFormat;
+	// Validate each chunk against the output schema instead of the whole output
+	validateChunks?: boolean;
+}
+
+export const STREAM_CONTENT_TYPES: Record<StreamFormat, string> = {
+	sse: "text/event-stream",
+	ndjson: "application/x-ndjson",
+};
+
+/**
+ * Headers for a streamed response in the given format
+ */
+export function streamHeaders(format: StreamFormat): Record<string, string> {
+	return format === "sse"
+		? {
+				"Content-Type": STREAM_CONTENT_TYPES.sse,
+				"Cache-Control": "no-cache",
+				Connection: "keep-alive",
+			}
+		: { "Content-Type": STREAM_CONTENT_TYPES.ndjson };
+}
+
+export function isReadableStream(value: unknown): value is ReadableStream<unknown> {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		typeof (value as ReadableStream).getReader === "function"
+	);
+}
+
+export function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		typeof (value as AsyncIterable<unknown>)[Symbol.asyncIterator] === "function"
+	);
+}
+
+/**
+ * Check if a handler output should be streamed rather than serialized at once
+ */
+export function isStreamingOutput(
+	value: unknown,
+): value is AsyncIterable<unknown> | ReadableStream<unknown> {
+	return isAsyncIterable(value) || isReadableStream(value);
+}
+
+/**
+ * Read a ReadableStream or AsyncIterable as an AsyncIterable, cancelling the stream
+ * when iteration stops early
+ */
+export async function* toAsyncIterable<T>(
+	source: AsyncIterable<T> | ReadableStream<T>,
+): AsyncGenerator<T> {
+	if (!isReadableStream(source)) {
+		yield* source;
+		return;
+	}
+
+	const reader = source.getReader();
+	let done = false;
+	try {
+		while (true) {
+			const chunk = await reader.read();
+			if (chunk.done) {
+				done = true;
+				return;
+			}
+			yield chunk.value;
+		}
+	} finally {
+		if (!done) {
+			await reader.cancel();
+		}
+		reader.releaseLock();
+	}
+}
+
+function serialize(format: StreamFormat, chunk: unknown): string {
+	const json = JSON.stringify(chunk);
+	return format === "sse" ? `data: ${json}\n\n` : `${json}\n`;
+}
+
+/**
+ * Encode a streaming output as SSE events or NDJSON lines.
+ * When the source fails mid-stream, SSE ends with an `error` event built by `mapError`,
+ * NDJSON rethrows so the adapter can abort the response.
+ */
+export async function* encodeStream(
+	source: AsyncIterable<unknown> | ReadableStream<unknown>,
+	format: StreamFormat,
+	mapError?: (error: unknown) => Promise<unknown>,
+): AsyncGenerator<string> {
+	try {
+		for await (const chunk of toAsyncIterable(source)) {
+			yield serialize(format, chunk);
+		}
+	} catch (error) {
+		if (format !== "sse") {
+			throw error;
+		}
+		const body = (await mapError?.(error)) ?? { error: "StreamError" };
+		yield `event: error\n${serialize(format, body)}`;
+	}
+}
+
+/**
+ * Wrap encoded chunks in a pull-based ReadableStream, so chunks are only produced as fast as
+ * the consumer reads them. Cancelling the stream stops the source.
+ */
+// Returns a non-generic ReadableStream, since Uint8Array is only generic in TypeScript 5.7 and later
+export function toReadableStream(source: AsyncIterable<string | Uint8Array>): ReadableStream {
+	const iterator = source[Symbol.asyncIterator]();
+	const encoder = new TextEncoder();
+
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			try {
+				const { value, done } = await iterator.next();
+				if (done) {
+					controller.close();
+				} else {
+					controller.enqueue(typeof value === "string" ? encoder.encode(value) : value);
+				}
+			} catch (error) {
+				controller.error(error);
+			}
+		},
+		async cancel() {
+			await iterator.return?.();
+		},
+	});
+}
+
+// The parts of a Node ServerResponse used to write a stream, so node:stream stays out of the bundle
+export interface WritableResponse {
+	write(chunk: string | Uint8Array): boolean;
+	end(chunk?: string | Uint8Array): void;
+	once(event: "drain" | "close", listener: () => void): unknown;
+	off(event: "drain" | "close", listener: () => void): unknown;
+	destroy(): void;
+}
+
+/**
+ * Write encoded chunks to a Node response, waiting for drain when the response buffer is full.
+ * Stops the source when the client disconnects. When the source fails the response is destroyed
+ * and the error rethrown.
+ */
+export async function writeToResponse(
+	source: AsyncIterable<string | Uint8Array>,
+	res: WritableResponse,
+): Promise<void> {
+	const iterator = source[Symbol.asyncIterator]();
+	let closed = false;
+	let resume: (() => void) | undefined;
+	const onClose = () => {
+		closed = true;
+		resume?.();
+	};
+	res.once("close", onClose);
+
+	try {
+		while (!closed) {
+			const { value, done } = await iterator.next();
+			if (done) {
+				res.end();
+				return;
+			}
+			if (!res.write(value) && !closed) {
+				await new Promise<void>((resolve) => {
+					resume = resolve;
+					res.once("drain", resolve);
+				});
+				if (resume) {
+					res.off("drain", resume);
+				}
+				resume = undefined;
+			}
+		}
+		await iterator.return?.();
+	} catch (error) {
+		res.destroy();
+		throw error;
+	} finally {
+		res.off("close", onClose);
+	}
+}
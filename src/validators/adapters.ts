@@ -1,4 +1,23 @@
-import type { ValidatorAdapter } from "../types.js";
+import { ValidationError } from "../errors/index.js";
+import type { StandardSchemaV1, ValidationIssue, ValidatorAdapter } from "../types.js";
+import { toIssuePath } from "./issues.js";
+import { joiToJSONSchema, yupToJSONSchema, zodToJSONSchema } from "./json-schema.js";
+
+function hasArray<K extends string>(error: unknown, key: K): error is Record<K, unknown[]> {
+	return (
+		typeof error === "object" &&
+		error !== null &&
+		key in error &&
+		Array.isArray((error as Record<string, unknown>)[key])
+	);
+}
+
+function parseYupPath(path: unknown): (string | number)[] {
+	if (typeof path !== "string" || path === "") return [];
+	return (path.match(/[^.[\]"]+/g) ?? []).map((segment) =>
+		/^\d+$/.test(segment) ? Number(segment) : segment,
+	);
+}
 
 // biome-ignore lint/suspicious/noExplicitAny: Zod types are dynamic and inferred at runtime
 export const zodAdapter: ValidatorAdapter<any> = {
@@ -11,6 +30,16 @@ export const zodAdapter: ValidatorAdapter<any> = {
 	parse: async (schema: any, data: unknown) => {
 		return await schema.parseAsync(data);
 	},
+	formatIssues: (error: unknown): ValidationIssue[] => {
+		if (!hasArray(error, "issues")) return [];
+		// biome-ignore lint/suspicious/noExplicitAny: ZodIssue shape is read dynamically
+		return error.issues.map((issue: any) => ({
+			path: toIssuePath(issue.path),
+			message: String(issue.message),
+			code: String(issue.code),
+		}));
+	},
+	toJSONSchema: zodToJSONSchema,
 };
 
 // biome-ignore lint/suspicious/noExplicitAny: Joi types are dynamic and inferred at runtime
@@ -24,8 +53,18 @@ export const joiAdapter: ValidatorAdapter<any> = {
 	},
 	// biome-ignore lint/suspicious/noExplicitAny: Schema type is determined at runtime
 	parse: async (schema: any, data: unknown) => {
-		return await schema.validateAsync(data);
+		return await schema.validateAsync(data, { abortEarly: false });
 	},
+	formatIssues: (error: unknown): ValidationIssue[] => {
+		if (!hasArray(error, "details")) return [];
+		// biome-ignore lint/suspicious/noExplicitAny: Joi error details are read dynamically
+		return error.details.map((detail: any) => ({
+			path: toIssuePath(detail.path),
+			message: String(detail.message),
+			code: String(detail.type),
+		}));
+	},
+	toJSONSchema: joiToJSONSchema,
 };
 
 // biome-ignore lint/suspicious/noExplicitAny: Yup types are dynamic and inferred at runtime
@@ -39,7 +78,60 @@ export const yupAdapter: ValidatorAdapter<any> = {
 	parse: async (schema: any, data: unknown) => {
 		return await schema.validate(data, { abortEarly: false });
 	},
+	formatIssues: (error: unknown): ValidationIssue[] => {
+		if (!hasArray(error, "errors")) return [];
+		// biome-ignore lint/suspicious/noExplicitAny: Yup ValidationError shape is read dynamically
+		const yupError = error as any;
+		const entries =
+			hasArray(yupError, "inner") && yupError.inner.length > 0 ? yupError.inner : [yupError];
+		// biome-ignore lint/suspicious/noExplicitAny: Yup ValidationError shape is read dynamically
+		return entries.map((entry: any) => ({
+			path: parseYupPath(entry.path),
+			message: String(entry.message),
+			code: String(entry.type ?? "invalid"),
+		}));
+	},
+	toJSONSchema: yupToJSONSchema,
+};
+
+// biome-ignore lint/suspicious/noExplicitAny: Standard Schema output types are inferred at runtime
+export const standardSchemaAdapter: ValidatorAdapter<any> = {
+	name: "standard-schema",
+	detect: (schema: unknown): boolean => {
+		if (!schema || (typeof schema !== "object" && typeof schema !== "function")) return false;
+		if (!("~standard" in schema)) return false;
+		const props = schema["~standard"];
+		return typeof props === "object" && props !== null && "validate" in props;
+	},
+	parse: async (schema: unknown, data: unknown) => {
+		const result = await (schema as StandardSchemaV1)["~standard"].validate(data);
+		if (result.issues) {
+			const issues = standardSchemaAdapter.formatIssues?.(result.issues) ?? [];
+			const [first] = issues;
+			throw new ValidationError(
+				"Validation failed",
+				first && first.path.length > 0 ? first.path.join(".") : undefined,
+				data,
+				result.issues,
+				issues,
+			);
+		}
+		return result.value;
+	},
+	formatIssues: (error: unknown): ValidationIssue[] => {
+		const issues = Array.isArray(error) ? error : hasArray(error, "issues") ? error.issues : [];
+		return (issues as StandardSchemaV1.Issue[]).map((issue) => ({
+			path: toIssuePath(issue.path),
+			message: issue.message,
+			code: "invalid",
+		}));
+	},
 };
 
 // biome-ignore lint/suspicious/noExplicitAny: Adapter types are dynamic and inferred at runtime
-export const builtInAdapters: ValidatorAdapter<any>[] = [zodAdapter, joiAdapter, yupAdapter];
+export const builtInAdapters: ValidatorAdapter<any>[] = [
+	zodAdapter,
+	joiAdapter,
+	yupAdapter,
+	standardSchemaAdapter,
+];
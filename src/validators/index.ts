@@ -3,5 +3,8 @@ export {
 	zodAdapter,
 	joiAdapter,
 	yupAdapter,
+	standardSchemaAdapter,
 } from "./adapters.js";
 export { detectValidator } from "./detector.js";
+export { normalizeIssues, toValidationError } from "./issues.js";
+export { zodToJSONSchema, joiToJSONSchema, yupToJSONSchema } from "./json-schema.js";
@@ -0,0 +1,78 @@
+/**
+ * Normalization of validator library errors into ValidationIssue lists
+ */
+
+import { ValidationError } from "../errors/index.js";
+import type { InputSource, ValidationIssue, ValidatorAdapter } from "../types.js";
+
+/**
+ * Convert a path made of property keys (or `{ key }` segments) into string/number segments
+ */
+export function toIssuePath(
+	path: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined,
+): (string | number)[] {
+	if (!path) return [];
+	return path.map((segment) => {
+		const key = typeof segment === "object" ? segment.key : segment;
+		return typeof key === "number" ? key : String(key);
+	});
+}
+
+/**
+ * Build the issue list for an error thrown by an adapter's parse function
+ */
+export function normalizeIssues(
+	error: unknown,
+	// biome-ignore lint/suspicious/noExplicitAny: Accepts any validator adapter
+	adapter?: ValidatorAdapter<any> | null,
+): ValidationIssue[] {
+	if (error instanceof ValidationError && error.issues.length > 0) {
+		return error.issues;
+	}
+
+	const issues = adapter?.formatIssues?.(error) ?? [];
+	if (issues.length > 0) {
+		return issues;
+	}
+
+	return [
+		{
+			path: error instanceof ValidationError && error.field ? error.field.split(".") : [],
+			message: error instanceof Error ? error.message : "Validation failed",
+			code: "invalid",
+		},
+	];
+}
+
+/**
+ * Wrap an adapter failure in a ValidationError carrying normalized issues
+ */
+export function toValidationError(
+	error: unknown,
+	options: {
+		message: string;
+		value: unknown;
+		// biome-ignore lint/suspicious/noExplicitAny: Accepts any validator adapter
+		adapter?: ValidatorAdapter<any> | null;
+		source?: InputSource;
+	},
+): ValidationError {
+	if (error instanceof ValidationError && !options.source && error.issues.length > 0) {
+		return error;
+	}
+
+	const { source } = options;
+	const issues = normalizeIssues(error, options.adapter).map((issue) =>
+		source ? { ...issue, source } : issue,
+	);
+	const [first] = issues;
+	const fieldPath = source ? [source, ...(first?.path ?? [])] : (first?.path ?? []);
+
+	return new ValidationError(
+		error instanceof ValidationError ? error.message : options.message,
+		fieldPath.length > 0 ? fieldPath.join(".") : undefined,
+		options.value,
+		error instanceof ValidationError ? error.originalError : error,
+		issues,
+	);
+}
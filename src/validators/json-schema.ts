@@ -0,0 +1,348 @@
+/**
+ * JSON Schema conversion for the built-in validator adapters
+ *
+ * Converters cover the common subset of each library (primitives, objects, arrays, enums,
+ * unions and the usual string/number constraints). Anything they cannot express becomes `{}`,
+ * which accepts any value.
+ */
+
+import type { JSONSchema } from "../types.js";
+
+function nullable(schema: JSONSchema): JSONSchema {
+	return { anyOf: [schema, { type: "null" }] };
+}
+
+/**
+ * Convert a Zod 3 schema by walking its `_def` tree
+ */
+export function zodToJSONSchema(schema: unknown): JSONSchema {
+	// biome-ignore lint/suspicious/noExplicitAny: Zod internals are not typed here
+	const zod = schema as any;
+	const def = zod?._def;
+	if (!def) {
+		return {};
+	}
+
+	const result = convertZod(def);
+	if (zod.description && result.description === undefined) {
+		result.description = zod.description;
+	}
+	return result;
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: Zod internals are not typed here
+function convertZod(def: any): JSONSchema {
+	switch (def.typeName) {
+		case "ZodString": {
+			const result: JSONSchema = { type: "string" };
+			for (const check of def.checks ?? []) {
+				if (check.kind === "min") result.minLength = check.value;
+				else if (check.kind === "max") result.maxLength = check.value;
+				else if (check.kind === "length") {
+					result.minLength = check.value;
+					result.maxLength = check.value;
+				} else if (check.kind === "email") result.format = "email";
+				else if (check.kind === "url") result.format = "uri";
+				else if (check.kind === "uuid") result.format = "uuid";
+				else if (check.kind === "datetime") result.format = "date-time";
+				else if (check.kind === "date") result.format = "date";
+				else if (check.kind === "regex") result.pattern = check.regex.source;
+			}
+			return result;
+		}
+		case "ZodNumber": {
+			const result: JSONSchema = { type: "number" };
+			for (const check of def.checks ?? []) {
+				if (check.kind === "int") result.type = "integer";
+				else if (check.kind === "min") {
+					result[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+				} else if (check.kind === "max") {
+					result[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+				} else if (check.kind === "multipleOf") result.multipleOf = check.value;
+			}
+			return result;
+		}
+		case "ZodBigInt":
+			return { type: "integer", format: "int64" };
+		case "ZodBoolean":
+			return { type: "boolean" };
+		case "ZodDate":
+			return { type: "string", format: "date-time" };
+		case "ZodNull":
+			return { type: "null" };
+		case "ZodLiteral":
+			return { const: def.value };
+		case "ZodEnum":
+			return { type: "string", enum: [...def.values] };
+		case "ZodNativeEnum": {
+			const values = Object.entries(def.values)
+				// Numeric enums map values back to names, skip the reverse entries
+				.filter(([key]) => Number.isNaN(Number(key)))
+				.map(([, value]) => value);
+			return { enum: values };
+		}
+		case "ZodArray": {
+			const result: JSONSchema = { type: "array", items: zodToJSONSchema(def.type) };
+			if (def.minLength) result.minItems = def.minLength.value;
+			if (def.maxLength) result.maxItems = def.maxLength.value;
+			if (def.exactLength) {
+				result.minItems = def.exactLength.value;
+				result.maxItems = def.exactLength.value;
+			}
+			return result;
+		}
+		case "ZodTuple":
+			return {
+				type: "array",
+				// biome-ignore lint/suspicious/noExplicitAny: Zod internals are not typed here
+				prefixItems: def.items.map((item: any) => zodToJSONSchema(item)),
+			};
+		case "ZodObject": {
+			const shape = typeof def.shape === "function" ? def.shape() : def.shape;
+			const properties: Record<string, JSONSchema> = {};
+			const required: string[] = [];
+			for (const [key, value] of Object.entries(shape ?? {})) {
+				// biome-ignore lint/suspicious/noExplicitAny: Zod internals are not typed here
+				const property = value as any;
+				properties[key] = zodToJSONSchema(property);
+				if (!property?.isOptional?.()) {
+					required.push(key);
+				}
+			}
+			const result: JSONSchema = { type: "object", properties };
+			if (required.length > 0) result.required = required;
+			if (def.unknownKeys === "strict") result.additionalProperties = false;
+			return result;
+		}
+		case "ZodRecord":
+			return { type: "object", additionalProperties: zodToJSONSchema(def.valueType) };
+		case "ZodUnion":
+		case "ZodDiscriminatedUnion":
+			return {
+				// biome-ignore lint/suspicious/noExplicitAny: Zod internals are not typed here
+				anyOf: [...(def.options?.values?.() ?? def.options)].map((option: any) =>
+					zodToJSONSchema(option),
+				),
+			};
+		case "ZodIntersection":
+			return { allOf: [zodToJSONSchema(def.left), zodToJSONSchema(def.right)] };
+		case "ZodOptional":
+			return zodToJSONSchema(def.innerType);
+		case "ZodNullable":
+			return nullable(zodToJSONSchema(def.innerType));
+		case "ZodDefault":
+			return { ...zodToJSONSchema(def.innerType), default: def.defaultValue() };
+		case "ZodCatch":
+		case "ZodReadonly":
+			return zodToJSONSchema(def.innerType);
+		case "ZodEffects":
+			return zodToJSONSchema(def.schema);
+		case "ZodPipeline":
+			return zodToJSONSchema(def.in);
+		case "ZodBranded":
+			return zodToJSONSchema(def.type);
+		default:
+			return {};
+	}
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: Joi descriptions are not typed here
+type JoiDescription = any;
+
+/**
+ * Convert a Joi schema using its `describe()` output
+ */
+export function joiToJSONSchema(schema: unknown): JSONSchema {
+	// biome-ignore lint/suspicious/noExplicitAny: Joi schemas are duck-typed
+	const joi = schema as any;
+	if (typeof joi?.describe !== "function") {
+		return {};
+	}
+	return convertJoi(joi.describe());
+}
+
+function convertJoi(description: JoiDescription): JSONSchema {
+	const flags = description.flags ?? {};
+	const rules: JoiDescription[] = description.rules ?? [];
+	const allow: unknown[] = description.allow ?? [];
+	let result: JSONSchema;
+
+	switch (description.type) {
+		case "string":
+			result = { type: "string" };
+			for (const rule of rules) {
+				if (rule.name === "min") result.minLength = rule.args.limit;
+				else if (rule.name === "max") result.maxLength = rule.args.limit;
+				else if (rule.name === "length") {
+					result.minLength = rule.args.limit;
+					result.maxLength = rule.args.limit;
+				} else if (rule.name === "email") result.format = "email";
+				else if (rule.name === "uri") result.format = "uri";
+				else if (rule.name === "guid") result.format = "uuid";
+				else if (rule.name === "isoDate") result.format = "date-time";
+				else if (rule.name === "pattern") {
+					result.pattern = String(rule.args.regex).replace(/^\/(.*)\/[a-z]*$/, "$1");
+				}
+			}
+			break;
+		case "number":
+			result = { type: "number" };
+			for (const rule of rules) {
+				if (rule.name === "integer") result.type = "integer";
+				else if (rule.name === "min") result.minimum = rule.args.limit;
+				else if (rule.name === "max") result.maximum = rule.args.limit;
+				else if (rule.name === "greater") result.exclusiveMinimum = rule.args.limit;
+				else if (rule.name === "less") result.exclusiveMaximum = rule.args.limit;
+				else if (rule.name === "multiple") result.multipleOf = rule.args.base;
+			}
+			break;
+		case "boolean":
+			result = { type: "boolean" };
+			break;
+		case "date":
+			result = { type: "string", format: "date-time" };
+			break;
+		case "array": {
+			const items: JoiDescription[] = description.items ?? [];
+			result = { type: "array" };
+			if (items.length === 1 && items[0]) result.items = convertJoi(items[0]);
+			else if (items.length > 1) result.items = { anyOf: items.map(convertJoi) };
+			for (const rule of rules) {
+				if (rule.name === "min") result.minItems = rule.args.limit;
+				else if (rule.name === "max") result.maxItems = rule.args.limit;
+			}
+			break;
+		}
+		case "object": {
+			const properties: Record<string, JSONSchema> = {};
+			const required: string[] = [];
+			for (const [key, child] of Object.entries<JoiDescription>(description.keys ?? {})) {
+				if (child.flags?.presence === "forbidden") {
+					continue;
+				}
+				properties[key] = convertJoi(child);
+				if (child.flags?.presence === "required") {
+					required.push(key);
+				}
+			}
+			result = { type: "object", properties };
+			if (required.length > 0) result.required = required;
+			if (flags.unknown === false) result.additionalProperties = false;
+			break;
+		}
+		case "alternatives":
+			result = {
+				anyOf: (description.matches ?? [])
+					.filter((match: JoiDescription) => match.schema)
+					.map((match: JoiDescription) => convertJoi(match.schema)),
+			};
+			break;
+		default:
+			result = {};
+	}
+
+	const values = allow.filter((value) => value !== null);
+	if (flags.only && values.length > 0) {
+		result.enum = values;
+	}
+	if (flags.default !== undefined && typeof flags.default !== "object") {
+		result.default = flags.default;
+	}
+	if (flags.description) {
+		result.description = flags.description;
+	}
+	return allow.includes(null) ? nullable(result) : result;
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: Yup descriptions are not typed here
+type YupDescription = any;
+
+/**
+ * Convert a Yup schema using its `describe()` output
+ */
+export function yupToJSONSchema(schema: unknown): JSONSchema {
+	// biome-ignore lint/suspicious/noExplicitAny: Yup schemas are duck-typed
+	const yup = schema as any;
+	if (typeof yup?.describe !== "function") {
+		return {};
+	}
+	return convertYup(yup.describe());
+}
+
+function convertYup(description: YupDescription): JSONSchema {
+	const tests: YupDescription[] = description.tests ?? [];
+	let result: JSONSchema;
+
+	switch (description.type) {
+		case "string":
+			result = { type: "string" };
+			for (const test of tests) {
+				if (test.name === "min") result.minLength = test.params.min;
+				else if (test.name === "max") result.maxLength = test.params.max;
+				else if (test.name === "length") {
+					result.minLength = test.params.length;
+					result.maxLength = test.params.length;
+				} else if (test.name === "email") result.format = "email";
+				else if (test.name === "url") result.format = "uri";
+				else if (test.name === "uuid") result.format = "uuid";
+				else if (test.name === "matches") result.pattern = test.params.regex.source;
+			}
+			break;
+		case "number":
+			result = { type: "number" };
+			for (const test of tests) {
+				if (test.name === "integer") result.type = "integer";
+				else if (test.name === "min" && "min" in test.params) result.minimum = test.params.min;
+				else if (test.name === "min" && "more" in test.params) {
+					result.exclusiveMinimum = test.params.more;
+				} else if (test.name === "max" && "max" in test.params) result.maximum = test.params.max;
+				else if (test.name === "max" && "less" in test.params) {
+					result.exclusiveMaximum = test.params.less;
+				}
+			}
+			break;
+		case "boolean":
+			result = { type: "boolean" };
+			break;
+		case "date":
+			result = { type: "string", format: "date-time" };
+			break;
+		case "array":
+			result = { type: "array" };
+			if (description.innerType) result.items = convertYup(description.innerType);
+			for (const test of tests) {
+				if (test.name === "min") result.minItems = test.params.min;
+				else if (test.name === "max") result.maxItems = test.params.max;
+			}
+			break;
+		case "object": {
+			const properties: Record<string, JSONSchema> = {};
+			const required: string[] = [];
+			for (const [key, child] of Object.entries<YupDescription>(description.fields ?? {})) {
+				properties[key] = convertYup(child);
+				if (child.optional === false) {
+					required.push(key);
+				}
+			}
+			result = { type: "object", properties };
+			if (required.length > 0) result.required = required;
+			break;
+		}
+		default:
+			result = {};
+	}
+
+	const values = (description.oneOf ?? []).filter(
+		(value: unknown) => value !== undefined && value !== null,
+	);
+	if (values.length > 0) {
+		result.enum = values;
+	}
+	if (description.default !== undefined && typeof description.default !== "object") {
+		result.default = description.default;
+	}
+	if (description.label) {
+		result.title = description.label;
+	}
+	return description.nullable ? nullable(result) : result;
+}
@@ -1,8 +1,10 @@
+import { EventEmitter } from "node:events";
+import { Writable } from "node:stream";
 import type { NextFunction, Request, Response } from "express";
 import { describe, expect, it, vi } from "vitest";
 import { z } from "zod";
-import { toExpress } from "../../src/adapters/express.js";
-import { handler } from "../../src/index.js";
+import { type ExpressContext, toExpress } from "../../src/adapters/express.js";
+import { HandlerError, UnauthorizedError, handler, respond } from "../../src/index.js";
 
 describe("Express Adapter", () => {
 	it("toExpress should extract body for single input", async () => {
@@ -91,6 +93,39 @@ describe("Express Adapter", () => {
 		expect(res.json).toHaveBeenCalledWith({ success: true });
 	});
 
+	it("toExpress should give before() middleware the raw request", async () => {
+		const h = handler<ExpressContext>()
+			.input(z.object({ name: z.string() }))
+			.before((_input, ctx) => {
+				if (!ctx.req.headers.authorization) {
+					return respond(401, { error: "Unauthorized" }, { bypass: true });
+				}
+				return { context: { token: ctx.req.headers.authorization } };
+			})
+			.handle(async (input, ctx) => ({ name: input.name, token: ctx.token }));
+
+		const expressHandler = toExpress(h);
+
+		const res = {
+			json: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		} as unknown as Response;
+		const next = vi.fn() as NextFunction;
+
+		await expressHandler({ body: { name: 1 }, headers: {} } as Request, res, next);
+
+		expect(res.status).toHaveBeenCalledWith(401);
+		expect(res.json).toHaveBeenCalledWith({ error: "Unauthorized" });
+
+		await expressHandler(
+			{ body: { name: "Alice" }, headers: { authorization: "Bearer t" } } as Request,
+			res,
+			next,
+		);
+
+		expect(res.json).toHaveBeenLastCalledWith({ name: "Alice", token: "Bearer t" });
+	});
+
 	it("toExpress should send JSON response with result", async () => {
 		const h = handler()
 			.input(z.object({ value: z.number() }))
@@ -188,6 +223,31 @@ describe("Express Adapter", () => {
 		expect(res.json).toHaveBeenCalledWith({ message: "Hello Bob" });
 	});
 
+	it("toExpress should send string bodies with a non-JSON content type as they are", async () => {
+		const h = handler().handle(async () => ({
+			status: 200,
+			body: "<p>Hi</p>",
+			headers: { "Content-Type": "text/html" },
+		}));
+
+		const expressHandler = toExpress(h);
+
+		const req = { body: undefined } as Request;
+		const res = {
+			json: vi.fn(),
+			end: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+			set: vi.fn(),
+		} as unknown as Response;
+		const next = vi.fn() as NextFunction;
+
+		await expressHandler(req, res, next);
+
+		expect(res.set).toHaveBeenCalledWith("Content-Type", "text/html");
+		expect(res.end).toHaveBeenCalledWith("<p>Hi</p>");
+		expect(res.json).not.toHaveBeenCalled();
+	});
+
 	it("toExpress should call next() with error on failure", async () => {
 		const h = handler()
 			.input(z.object({ value: z.number() }))
@@ -212,7 +272,7 @@ describe("Express Adapter", () => {
 		expect(res.json).not.toHaveBeenCalled();
 	});
 
-	it("toExpress should work with Zod validation", async () => {
+	it("toExpress should respond with 400 on Zod validation failure", async () => {
 		const h = handler()
 			.input(z.object({ email: z.string().email() }))
 			.handle(async (input) => ({ valid: true, email: input.email }));
@@ -228,8 +288,127 @@ describe("Express Adapter", () => {
 
 		await expressHandler(req, res, next);
 
-		expect(next).toHaveBeenCalled();
-		expect(res.json).not.toHaveBeenCalled();
+		expect(next).not.toHaveBeenCalled();
+		expect(res.status).toHaveBeenCalledWith(400);
+		expect(res.json).toHaveBeenCalledWith({
+			error: "ValidationError",
+			message: "Validation failed",
+			issues: [{ path: ["email"], message: "Invalid email", code: "invalid_string" }],
+		});
+	});
+
+	it("toExpress should respond with HandlerError status code", async () => {
+		const h = handler()
+			.input(z.object({ id: z.string() }))
+			.handle(async () => {
+				throw new HandlerError("User not found", 404, { id: "1" });
+			});
+
+		const expressHandler = toExpress(h);
+
+		const req = { body: { id: "1" } } as Request;
+		const res = {
+			json: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		} as unknown as Response;
+		const next = vi.fn() as NextFunction;
+
+		await expressHandler(req, res, next);
+
+		expect(res.status).toHaveBeenCalledWith(404);
+		expect(res.json).toHaveBeenCalledWith({
+			error: "HandlerError",
+			message: "User not found",
+			details: { id: "1" },
+		});
+	});
+
+	it("toExpress should send HttpError thrown from middleware as problem+json", async () => {
+		const h = handler()
+			.input(z.object({ id: z.string() }))
+			.use(async () => {
+				throw new UnauthorizedError("Missing token");
+			})
+			.handle(async () => ({ ok: true }));
+
+		const expressHandler = toExpress(h);
+
+		const req = { body: { id: "1" } } as Request;
+		const res = {
+			json: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+			set: vi.fn(),
+		} as unknown as Response;
+		const next = vi.fn() as NextFunction;
+
+		await expressHandler(req, res, next);
+
+		expect(res.set).toHaveBeenCalledWith("Content-Type", "application/problem+json");
+		expect(res.status).toHaveBeenCalledWith(401);
+		expect(res.json).toHaveBeenCalledWith({
+			type: "about:blank",
+			title: "Unauthorized",
+			status: 401,
+			detail: "Missing token",
+		});
+	});
+
+	it("toExpress should use onError to build the error response", async () => {
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.handle(async () => {
+				throw new Error("Something went wrong");
+			})
+			.onError((error, input, ctx) => ({
+				status: 503,
+				body: { message: (error as Error).message, input, hasReq: "req" in ctx },
+				headers: { "Retry-After": "5" },
+			}));
+
+		const expressHandler = toExpress(h);
+
+		const req = { body: { value: 42 } } as Request;
+		const res = {
+			json: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+			set: vi.fn(),
+		} as unknown as Response;
+		const next = vi.fn() as NextFunction;
+
+		await expressHandler(req, res, next);
+
+		expect(next).not.toHaveBeenCalled();
+		expect(res.set).toHaveBeenCalledWith("Retry-After", "5");
+		expect(res.status).toHaveBeenCalledWith(503);
+		expect(res.json).toHaveBeenCalledWith({
+			message: "Something went wrong",
+			input: { value: 42 },
+			hasReq: true,
+		});
+	});
+
+	it("toExpress should call next() when the error handler throws", async () => {
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.handle(async () => {
+				throw new Error("Something went wrong");
+			})
+			.onError(() => {
+				throw new Error("Error handler failed");
+			});
+
+		const expressHandler = toExpress(h);
+
+		const req = { body: { value: 42 } } as Request;
+		const res = {
+			json: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+		} as unknown as Response;
+		const next = vi.fn() as NextFunction;
+
+		await expressHandler(req, res, next);
+
+		expect(next.mock.calls[0][0].message).toBe("Error handler failed");
 	});
 
 	it("toExpress should work with transform stage", async () => {
@@ -277,4 +456,107 @@ describe("Express Adapter", () => {
 		expect(res.json).toHaveBeenCalledWith({ result: 15, multiplier: 3 });
 		expect(next).not.toHaveBeenCalled();
 	});
+
+	it("toExpress should abort the handler when the client disconnects", async () => {
+		let signal: AbortSignal | undefined;
+		const h = handler<ExpressContext>().handle(
+			(_input, ctx) =>
+				new Promise((_resolve, reject) => {
+					signal = ctx.signal;
+					ctx.signal?.addEventListener("abort", () => reject(ctx.signal?.reason));
+				}),
+		);
+
+		const expressHandler = toExpress(h);
+
+		const req = { body: {} } as Request;
+		const res = Object.assign(new EventEmitter(), {
+			json: vi.fn(),
+			status: vi.fn().mockReturnThis(),
+			writableFinished: false,
+		}) as unknown as Response;
+		const next = vi.fn() as NextFunction;
+
+		const pending = expressHandler(req, res, next);
+		await vi.waitFor(() => expect(signal).toBeDefined());
+		res.emit("close");
+		await pending;
+
+		expect(signal?.aborted).toBe(true);
+		expect(res.status).toHaveBeenCalledWith(499);
+		expect(res.listenerCount("close")).toBe(0);
+		expect(next).not.toHaveBeenCalled();
+	});
+
+	it("toExpress should stream AsyncIterable outputs as server-sent events", async () => {
+		const h = handler()
+			.stream({ format: "sse" })
+			.handle(async function* () {
+				yield { progress: 50 };
+				yield { progress: 100 };
+			});
+
+		const expressHandler = toExpress(h);
+
+		const written: string[] = [];
+		const res = Object.assign(
+			new Writable({
+				write(chunk, _encoding, callback) {
+					written.push(chunk.toString());
+					callback();
+				},
+			}),
+			{
+				status: vi.fn().mockReturnThis(),
+				set: vi.fn().mockReturnThis(),
+				flushHeaders: vi.fn(),
+			},
+		) as unknown as Response;
+		const next = vi.fn() as NextFunction;
+
+		await expressHandler({ body: {} } as Request, res, next);
+
+		expect(res.status).toHaveBeenCalledWith(200);
+		expect(res.set).toHaveBeenCalledWith(
+			expect.objectContaining({ "Content-Type": "text/event-stream" }),
+		);
+		expect(written.join("")).toBe('data: {"progress":50}\n\ndata: {"progress":100}\n\n');
+		expect(next).not.toHaveBeenCalled();
+	});
+
+	it("toExpress should stop the stream when the client disconnects", async () => {
+		const cleanup = vi.fn();
+		const h = handler().handle(async function* () {
+			try {
+				while (true) {
+					yield { tick: true };
+					await new Promise((resolve) => setTimeout(resolve, 1));
+				}
+			} finally {
+				cleanup();
+			}
+		});
+
+		const expressHandler = toExpress(h);
+
+		const res = Object.assign(
+			new Writable({
+				write(_chunk, _encoding, callback) {
+					callback();
+					res.destroy();
+				},
+			}),
+			{
+				status: vi.fn().mockReturnThis(),
+				set: vi.fn().mockReturnThis(),
+				flushHeaders: vi.fn(),
+			},
+		) as unknown as Response;
+		const next = vi.fn() as NextFunction;
+
+		await expressHandler({ body: {} } as Request, res, next);
+
+		await vi.waitFor(() => expect(cleanup).toHaveBeenCalled());
+		expect(next).not.toHaveBeenCalled();
+	});
 });
@@ -1,8 +1,8 @@
-import type { FastifyReply, FastifyRequest } from "fastify";
+import Fastify, { type FastifyReply, type FastifyRequest } from "fastify";
 import Joi from "joi";
 import { describe, expect, it, vi } from "vitest";
 import { toFastify } from "../../src/adapters/fastify.js";
-import { handler } from "../../src/index.js";
+import { NotFoundError, handler } from "../../src/index.js";
 
 describe("Fastify Adapter", () => {
 	it("toFastify should extract body for single input", async () => {
@@ -168,6 +168,27 @@ describe("Fastify Adapter", () => {
 		expect(reply.send).toHaveBeenCalledWith({ message: "Hello Bob" });
 	});
 
+	it("toFastify should send string bodies as text only with a non-JSON content type", async () => {
+		const html = handler().handle(async () => ({
+			status: 200,
+			body: "<p>Hi</p>",
+			headers: { "Content-Type": "text/html" },
+		}));
+		const json = handler().handle(async () => ({ status: 200, body: "ok" }));
+		const app = Fastify();
+		app.get("/html", toFastify(html));
+		app.get("/json", toFastify(json));
+
+		const htmlResponse = await app.inject({ method: "GET", url: "/html" });
+		const jsonResponse = await app.inject({ method: "GET", url: "/json" });
+
+		expect(htmlResponse.headers["content-type"]).toBe("text/html");
+		expect(htmlResponse.body).toBe("<p>Hi</p>");
+		expect(jsonResponse.headers["content-type"]).toContain("application/json");
+		expect(jsonResponse.body).toBe('"ok"');
+		await app.close();
+	});
+
 	it("toFastify should throw errors for framework error handling", async () => {
 		const h = handler()
 			.input(Joi.object({ value: Joi.number().required() }))
@@ -183,7 +204,7 @@ describe("Fastify Adapter", () => {
 		await expect(fastifyHandler(request, reply)).rejects.toThrow("Something went wrong");
 	});
 
-	it("toFastify should work with Joi validation", async () => {
+	it("toFastify should reply with 400 on Joi validation failure", async () => {
 		const h = handler()
 			.input(Joi.object({ email: Joi.string().email().required() }))
 			.handle(async (input) => ({ valid: true, email: input.email }));
@@ -191,9 +212,69 @@ describe("Fastify Adapter", () => {
 		const fastifyHandler = toFastify(h);
 
 		const request = { body: { email: "invalid-email" } } as FastifyRequest;
-		const reply = {} as FastifyReply;
+		const reply = {
+			status: vi.fn().mockReturnThis(),
+			send: vi.fn().mockReturnThis(),
+		} as unknown as FastifyReply;
+
+		await fastifyHandler(request, reply);
+
+		expect(reply.status).toHaveBeenCalledWith(400);
+		expect(reply.send).toHaveBeenCalledWith({
+			error: "ValidationError",
+			message: "Validation failed",
+			issues: [{ path: ["email"], message: '"email" must be a valid email', code: "string.email" }],
+		});
+	});
+
+	it("toFastify should send HttpError thrown from the handler as problem+json", async () => {
+		const h = handler()
+			.input(Joi.object({ id: Joi.string().required() }))
+			.handle(async (input) => {
+				throw new NotFoundError(`User ${input.id} not found`);
+			});
+
+		const fastifyHandler = toFastify(h);
+
+		const request = { body: { id: "42" } } as FastifyRequest;
+		const reply = {
+			header: vi.fn().mockReturnThis(),
+			status: vi.fn().mockReturnThis(),
+			send: vi.fn().mockReturnThis(),
+		} as unknown as FastifyReply;
+
+		await fastifyHandler(request, reply);
+
+		expect(reply.header).toHaveBeenCalledWith("Content-Type", "application/problem+json");
+		expect(reply.status).toHaveBeenCalledWith(404);
+		expect(reply.send).toHaveBeenCalledWith({
+			type: "about:blank",
+			title: "Not Found",
+			status: 404,
+			detail: "User 42 not found",
+		});
+	});
+
+	it("toFastify should use onError to build the error response", async () => {
+		const h = handler()
+			.input(Joi.object({ value: Joi.number().required() }))
+			.handle(async () => {
+				throw new Error("Something went wrong");
+			})
+			.onError((error) => ({ status: 503, body: { message: (error as Error).message } }));
+
+		const fastifyHandler = toFastify(h);
 
-		await expect(fastifyHandler(request, reply)).rejects.toThrow();
+		const request = { body: { value: 42 } } as FastifyRequest;
+		const reply = {
+			status: vi.fn().mockReturnThis(),
+			send: vi.fn().mockReturnThis(),
+		} as unknown as FastifyReply;
+
+		await fastifyHandler(request, reply);
+
+		expect(reply.status).toHaveBeenCalledWith(503);
+		expect(reply.send).toHaveBeenCalledWith({ message: "Something went wrong" });
 	});
 
 	it("toFastify should work with transform stage", async () => {
@@ -231,4 +312,44 @@ describe("Fastify Adapter", () => {
 
 		expect(result).toEqual({ result: 15, multiplier: 3 });
 	});
+
+	it("toFastify should stream AsyncIterable outputs as NDJSON", async () => {
+		const h = handler().handle(async function* () {
+			yield { n: 1 };
+			yield { n: 2 };
+		});
+
+		const fastifyHandler = toFastify(h);
+
+		const reply = {
+			header: vi.fn().mockReturnThis(),
+			status: vi.fn().mockReturnThis(),
+			send: vi.fn((payload) => payload),
+		} as unknown as FastifyReply;
+
+		const stream = (await fastifyHandler({ body: {} } as FastifyRequest, reply)) as ReadableStream;
+
+		expect(reply.header).toHaveBeenCalledWith("Content-Type", "application/x-ndjson");
+		expect(reply.status).toHaveBeenCalledWith(200);
+		expect(stream).toBeInstanceOf(ReadableStream);
+		expect(await new Response(stream).text()).toBe('{"n":1}\n{"n":2}\n');
+	});
+
+	it("toFastify should serve streamed outputs through a Fastify instance", async () => {
+		const h = handler()
+			.stream({ format: "sse" })
+			.handle(async function* () {
+				yield { n: 1 };
+				yield { n: 2 };
+			});
+		const app = Fastify();
+		app.get("/events", toFastify(h));
+
+		const response = await app.inject({ method: "GET", url: "/events" });
+
+		expect(response.statusCode).toBe(200);
+		expect(response.headers["content-type"]).toBe("text/event-stream");
+		expect(response.body).toBe('data: {"n":1}\n\ndata: {"n":2}\n\n');
+		await app.close();
+	});
 });
@@ -0,0 +1,214 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { type FetchContext, toFetch } from "../../src/adapters/fetch.js";
+import { HandlerError, NotFoundError, handler, respond } from "../../src/index.js";
+
+function jsonRequest(url: string, body: unknown, method = "POST") {
+	return new Request(url, {
+		method,
+		headers: { "content-type": "application/json" },
+		body: JSON.stringify(body),
+	});
+}
+
+describe("Fetch Adapter", () => {
+	it("toFetch should parse a JSON body for single input", async () => {
+		const h = handler()
+			.input(z.object({ name: z.string() }))
+			.handle(async (input) => ({ message: `Hello ${input.name}` }));
+
+		const response = await toFetch(h)(jsonRequest("http://localhost/greet", { name: "Alice" }));
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get("content-type")).toBe("application/json");
+		expect(await response.json()).toEqual({ message: "Hello Alice" });
+	});
+
+	it("toFetch should extract body/query/params/headers for multi-input", async () => {
+		const h = handler()
+			.input({
+				body: z.object({ name: z.string() }),
+				query: z.object({ tag: z.array(z.string()), page: z.string() }),
+				params: z.object({ id: z.string() }),
+				headers: z.object({ "x-tenant": z.string() }),
+			})
+			.handle(async (input) => input);
+
+		const fetchHandler = toFetch(h, {
+			params: (request) => ({ id: new URL(request.url).pathname.split("/")[2] ?? "" }),
+		});
+		const request = new Request("http://localhost/users/42?tag=a&tag=b&page=2", {
+			method: "PUT",
+			headers: { "content-type": "application/json", "X-Tenant": "acme" },
+			body: JSON.stringify({ name: "Alice" }),
+		});
+
+		const body = await (await fetchHandler(request)).json();
+
+		expect(body).toEqual({
+			body: { name: "Alice" },
+			query: { tag: ["a", "b"], page: "2" },
+			params: { id: "42" },
+			headers: { "x-tenant": "acme" },
+		});
+	});
+
+	it("toFetch should parse urlencoded, multipart and text bodies", async () => {
+		const h = handler().handle(async (input) => ({ received: input }));
+		const fetchHandler = toFetch(h);
+
+		const urlencoded = new Request("http://localhost", {
+			method: "POST",
+			headers: { "content-type": "application/x-www-form-urlencoded" },
+			body: "name=Alice&role=admin&role=user",
+		});
+		const form = new FormData();
+		form.append("name", "Bob");
+		const multipart = new Request("http://localhost", { method: "POST", body: form });
+		const text = new Request("http://localhost", {
+			method: "POST",
+			headers: { "content-type": "text/plain" },
+			body: "hello",
+		});
+
+		expect(await (await fetchHandler(urlencoded)).json()).toEqual({
+			received: { name: "Alice", role: ["admin", "user"] },
+		});
+		expect(await (await fetchHandler(multipart)).json()).toEqual({ received: { name: "Bob" } });
+		expect(await (await fetchHandler(text)).json()).toEqual({ received: "hello" });
+	});
+
+	it("toFetch should not read a body for GET requests", async () => {
+		const h = handler()
+			.input({ query: z.object({ q: z.string() }) })
+			.handle(async (input) => ({ q: input.query.q, body: "body" in input }));
+
+		const response = await toFetch(h)(new Request("http://localhost/search?q=shoes"));
+
+		expect(await response.json()).toEqual({ q: "shoes", body: false });
+	});
+
+	it("toFetch should respond 400 for invalid JSON bodies", async () => {
+		const h = handler().handle(async () => ({}));
+		const request = new Request("http://localhost", {
+			method: "POST",
+			headers: { "content-type": "application/json" },
+			body: "{",
+		});
+
+		const response = await toFetch(h)(request);
+
+		expect(response.status).toBe(400);
+		expect(response.headers.get("content-type")).toBe("application/problem+json");
+		expect(await response.json()).toMatchObject({ detail: "Invalid JSON body" });
+	});
+
+	it("toFetch should respond 400 for validation errors", async () => {
+		const h = handler()
+			.input(z.object({ name: z.string() }))
+			.handle(async () => ({}));
+
+		const response = await toFetch(h)(jsonRequest("http://localhost", { name: 1 }));
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({ error: "ValidationError" });
+	});
+
+	it("toFetch should write ResponseObject status and headers", async () => {
+		const h = handler().handle(async () => ({
+			status: 201,
+			body: { id: "1" },
+			headers: { Location: "/users/1" },
+		}));
+
+		const response = await toFetch(h)(jsonRequest("http://localhost/users", {}));
+
+		expect(response.status).toBe(201);
+		expect(response.headers.get("location")).toBe("/users/1");
+		expect(await response.json()).toEqual({ id: "1" });
+	});
+
+	it("toFetch should send raw bodies with a non-JSON content type", async () => {
+		const h = handler().handle(async () => ({
+			status: 200,
+			body: "<p>Hi</p>",
+			headers: { "Content-Type": "text/html" },
+		}));
+
+		const response = await toFetch(h)(new Request("http://localhost"));
+
+		expect(response.headers.get("content-type")).toBe("text/html");
+		expect(await response.text()).toBe("<p>Hi</p>");
+	});
+
+	it("toFetch should send no body for 204 responses", async () => {
+		const h = handler().handle(async () => respond(204, undefined));
+
+		const response = await toFetch(h)(new Request("http://localhost", { method: "DELETE" }));
+
+		expect(response.status).toBe(204);
+		expect(await response.text()).toBe("");
+	});
+
+	it("toFetch should map thrown errors with the error handler", async () => {
+		const h = handler().handle(async () => {
+			throw new NotFoundError("User not found");
+		});
+
+		const response = await toFetch(h)(new Request("http://localhost/users/1"));
+
+		expect(response.status).toBe(404);
+		expect(await response.json()).toMatchObject({ title: "Not Found", detail: "User not found" });
+	});
+
+	it("toFetch should rethrow errors the error handler leaves to the runtime", async () => {
+		const boom = new Error("boom");
+		const h = handler().handle(async () => {
+			throw boom;
+		});
+
+		await expect(toFetch(h)(new Request("http://localhost"))).rejects.toBe(boom);
+	});
+
+	it("toFetch should use onError responses", async () => {
+		const h = handler()
+			.handle(async () => {
+				throw new HandlerError("Quota exceeded", 429);
+			})
+			.onError(() => ({ status: 503, body: { retry: true } }));
+
+		const response = await toFetch(h)(new Request("http://localhost"));
+
+		expect(response.status).toBe(503);
+		expect(await response.json()).toEqual({ retry: true });
+	});
+
+	it("toFetch should pass the request and its signal as context", async () => {
+		const controller = new AbortController();
+		let seen: FetchContext | undefined;
+		const h = handler<FetchContext>().handle(async (_input, ctx) => {
+			seen = ctx;
+			return {};
+		});
+		const request = new Request("http://localhost", { signal: controller.signal });
+
+		await toFetch(h)(request);
+
+		expect(seen?.request).toBe(request);
+		expect(seen?.signal).toBeInstanceOf(AbortSignal);
+	});
+
+	it("toFetch should stream AsyncIterable outputs", async () => {
+		const h = handler()
+			.stream({ format: "sse" })
+			.handle(async function* () {
+				yield { n: 1 };
+				yield { n: 2 };
+			});
+
+		const response = await toFetch(h)(new Request("http://localhost/events"));
+
+		expect(response.headers.get("content-type")).toBe("text/event-stream");
+		expect(await response.text()).toBe('data: {"n":1}\n\ndata: {"n":2}\n\n');
+	});
+});
@@ -1,8 +1,8 @@
-import type { Context } from "hono";
+import { type Context, Hono } from "hono";
 import { describe, expect, it, vi } from "vitest";
 import * as yup from "yup";
-import { toHono } from "../../src/adapters/hono.js";
-import { handler } from "../../src/index.js";
+import { type HonoContext, toHono } from "../../src/adapters/hono.js";
+import { ConflictError, configure, handler, resetConfig } from "../../src/index.js";
 
 describe("Hono Adapter", () => {
 	it("toHono should parse body as JSON for single input", async () => {
@@ -203,7 +203,7 @@ describe("Hono Adapter", () => {
 		await expect(honoHandler(c)).rejects.toThrow("Something went wrong");
 	});
 
-	it("toHono should work with Yup validation", async () => {
+	it("toHono should respond with 400 on Yup validation failure", async () => {
 		const h = handler()
 			.input(yup.object({ email: yup.string().email().required() }))
 			.handle(async (input) => ({ valid: true, email: input.email }));
@@ -217,7 +217,68 @@ describe("Hono Adapter", () => {
 			json: vi.fn(),
 		} as unknown as Context;
 
-		await expect(honoHandler(c)).rejects.toThrow();
+		await honoHandler(c);
+
+		expect(c.json).toHaveBeenCalledWith(
+			{
+				error: "ValidationError",
+				message: "Validation failed",
+				issues: [{ path: ["email"], message: "email must be a valid email", code: "email" }],
+			},
+			400,
+		);
+	});
+
+	it("toHono should send HttpError as problem+json", async () => {
+		const h = handler()
+			.input(yup.object({ email: yup.string().required() }))
+			.handle(async () => {
+				throw new ConflictError("Email already registered");
+			});
+
+		const honoHandler = toHono(h);
+
+		const c = {
+			req: {
+				json: vi.fn().mockResolvedValue({ email: "a@example.com" }),
+			},
+			header: vi.fn(),
+			json: vi.fn(),
+		} as unknown as Context;
+
+		await honoHandler(c);
+
+		expect(c.json).toHaveBeenCalledWith(
+			{ type: "about:blank", title: "Conflict", status: 409, detail: "Email already registered" },
+			409,
+			{ "Content-Type": "application/problem+json" },
+		);
+	});
+
+	it("toHono should use the global errorHandler from config", async () => {
+		configure({
+			errorHandler: (error) => ({ status: 500, body: { fault: (error as Error).message } }),
+		});
+
+		const h = handler()
+			.input(yup.object({ value: yup.number().required() }))
+			.handle(async () => {
+				throw new Error("Something went wrong");
+			});
+
+		const honoHandler = toHono(h);
+
+		const c = {
+			req: {
+				json: vi.fn().mockResolvedValue({ value: 42 }),
+			},
+			json: vi.fn(),
+		} as unknown as Context;
+
+		await honoHandler(c);
+		resetConfig();
+
+		expect(c.json).toHaveBeenCalledWith({ fault: "Something went wrong" }, 500);
 	});
 
 	it("toHono should work with transform stage", async () => {
@@ -263,4 +324,116 @@ describe("Hono Adapter", () => {
 
 		expect(c.json).toHaveBeenCalledWith({ result: 15, multiplier: 3 });
 	});
+
+	it("toHono should expose the request signal as ctx.signal", async () => {
+		const h = handler<HonoContext>()
+			.input(yup.object({ value: yup.number().required() }))
+			.handle(async (_input, ctx) => ({ aborted: ctx.signal?.aborted }));
+
+		const honoHandler = toHono(h);
+
+		const c = {
+			req: {
+				json: vi.fn().mockResolvedValue({ value: 1 }),
+				raw: { signal: new AbortController().signal },
+			},
+			json: vi.fn(),
+		} as unknown as Context;
+
+		await honoHandler(c);
+
+		expect(c.json).toHaveBeenCalledWith({ aborted: false });
+	});
+
+	it("toHono should respond with 499 when the request was aborted", async () => {
+		const handlerFn = vi.fn();
+		const h = handler()
+			.input(yup.object({ value: yup.number().required() }))
+			.handle(handlerFn);
+
+		const honoHandler = toHono(h);
+
+		const c = {
+			req: {
+				json: vi.fn().mockResolvedValue({ value: 1 }),
+				raw: { signal: AbortSignal.abort() },
+			},
+			json: vi.fn(),
+		} as unknown as Context;
+
+		await honoHandler(c);
+
+		expect(handlerFn).not.toHaveBeenCalled();
+		expect(c.json).toHaveBeenCalledWith(
+			{ error: "AbortError", message: "Handler execution aborted" },
+			499,
+		);
+	});
+
+	it("toHono should stream AsyncIterable outputs as server-sent events", async () => {
+		const h = handler()
+			.input(yup.object({ value: yup.number().required() }))
+			.stream({ format: "sse" })
+			.handle(async function* (input) {
+				yield { value: input.value };
+			});
+
+		const honoHandler = toHono(h);
+
+		const c = {
+			req: {
+				json: vi.fn().mockResolvedValue({ value: 7 }),
+			},
+			body: vi.fn((stream) => new Response(stream)),
+		} as unknown as Context;
+
+		const response = (await honoHandler(c)) as Response;
+
+		expect(c.body).toHaveBeenCalledWith(
+			expect.any(ReadableStream),
+			200,
+			expect.objectContaining({ "Content-Type": "text/event-stream" }),
+		);
+		expect(await response.text()).toBe('data: {"value":7}\n\n');
+	});
+
+	it("toHono should not read a body for GET requests", async () => {
+		const h = handler()
+			.input({ query: yup.object({ page: yup.string().required() }) })
+			.handle(async (input) => ({ page: input.query.page, body: input.body }));
+		const app = new Hono().get("/users", toHono(h));
+
+		const response = await app.request("/users?page=2");
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toEqual({ page: "2" });
+	});
+
+	it("toHono should send string bodies with a non-JSON content type as they are", async () => {
+		const h = handler().handle(async () => ({
+			status: 200,
+			body: "<p>Hi</p>",
+			headers: { "Content-Type": "text/html" },
+		}));
+		const app = new Hono().get("/", toHono(h));
+
+		const response = await app.request("/");
+
+		expect(response.headers.get("content-type")).toBe("text/html");
+		expect(await response.text()).toBe("<p>Hi</p>");
+	});
+
+	it("toHono should respond with 400 for malformed JSON bodies", async () => {
+		const h = handler().handle(async () => ({ ok: true }));
+		const app = new Hono().post("/users", toHono(h));
+
+		const response = await app.request("/users", {
+			method: "POST",
+			headers: { "content-type": "application/json" },
+			body: "{",
+		});
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({ detail: "Invalid JSON body" });
+	});
 });
@@ -0,0 +1,277 @@
+import { type RequestListener, type Server, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { Readable } from "node:stream";
+import { bodyParser } from "@koa/bodyparser";
+import Router from "@koa/router";
+import Koa from "koa";
+import { afterEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import { type KoaContext, toKoa } from "../../src/adapters/koa.js";
+import { HandlerError, NotFoundError, handler, respond } from "../../src/index.js";
+
+let server: Server | undefined;
+
+async function serve(app: { silent: boolean; callback(): RequestListener }): Promise<string> {
+	// Koa logs errors it handles unless the app is silent
+	app.silent = true;
+	server = createServer(app.callback());
+	await new Promise<void>((resolve) => server?.listen(0, "127.0.0.1", resolve));
+	const { port } = server.address() as AddressInfo;
+	return `http://127.0.0.1:${port}`;
+}
+
+function appWith(middleware: Koa.Middleware) {
+	return new Koa().use(bodyParser()).use(middleware);
+}
+
+function postJson(url: string, body: unknown) {
+	return fetch(url, {
+		method: "POST",
+		headers: { "content-type": "application/json" },
+		body: JSON.stringify(body),
+	});
+}
+
+afterEach(async () => {
+	// close() alone waits for fetch's keep-alive sockets to time out
+	server?.closeAllConnections();
+	await new Promise((resolve) => server?.close(resolve));
+	server = undefined;
+});
+
+describe("Koa Adapter", () => {
+	it("toKoa should read ctx.request.body for single input", async () => {
+		const h = handler()
+			.input(z.object({ name: z.string() }))
+			.handle(async (input) => ({ message: `Hello ${input.name}` }));
+		const url = await serve(appWith(toKoa(h)));
+
+		const response = await postJson(url, { name: "Alice" });
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get("content-type")).toBe("application/json");
+		expect(await response.json()).toEqual({ message: "Hello Alice" });
+	});
+
+	it("toKoa should extract body/query/params/headers for multi-input", async () => {
+		const h = handler()
+			.input({
+				body: z.object({ name: z.string() }),
+				query: z.object({ tag: z.array(z.string()) }),
+				params: z.object({ id: z.string() }),
+				headers: z.object({ "x-tenant": z.string() }),
+			})
+			.handle(async (input) => ({ ...input, headers: { "x-tenant": input.headers["x-tenant"] } }));
+		const router = new Router().put("/users/:id", toKoa(h));
+		const url = await serve(new Koa().use(bodyParser()).use(router.routes()));
+
+		const response = await fetch(`${url}/users/42?tag=a&tag=b`, {
+			method: "PUT",
+			headers: { "content-type": "application/json", "X-Tenant": "acme" },
+			body: JSON.stringify({ name: "Alice" }),
+		});
+
+		expect(await response.json()).toEqual({
+			body: { name: "Alice" },
+			query: { tag: ["a", "b"] },
+			params: { id: "42" },
+			headers: { "x-tenant": "acme" },
+		});
+	});
+
+	it("toKoa should default params to an empty object without a router", async () => {
+		const h = handler()
+			.input({ params: z.object({}) })
+			.handle(async (input) => input);
+		const url = await serve(appWith(toKoa(h)));
+
+		const response = await fetch(url);
+
+		expect(await response.json()).toEqual({ params: {} });
+	});
+
+	it("toKoa should write ResponseObject status and headers", async () => {
+		const h = handler().handle(async () => ({
+			status: 201,
+			body: { id: "1" },
+			headers: { Location: "/users/1" },
+		}));
+		const url = await serve(appWith(toKoa(h)));
+
+		const response = await postJson(`${url}/users`, {});
+
+		expect(response.status).toBe(201);
+		expect(response.headers.get("location")).toBe("/users/1");
+		expect(await response.json()).toEqual({ id: "1" });
+	});
+
+	it("toKoa should serialize string bodies as JSON by default", async () => {
+		const h = handler().handle(async () => "ok");
+		const url = await serve(appWith(toKoa(h)));
+
+		const response = await fetch(url);
+
+		expect(response.headers.get("content-type")).toBe("application/json");
+		expect(await response.text()).toBe('"ok"');
+	});
+
+	it("toKoa should keep the content type of raw string bodies", async () => {
+		const h = handler().handle(async () => ({
+			status: 200,
+			body: "id,name\n1,Alice\n",
+			headers: { "Content-Type": "text/csv" },
+		}));
+		const url = await serve(appWith(toKoa(h)));
+
+		const response = await fetch(url);
+
+		expect(response.headers.get("content-type")).toBe("text/csv");
+		expect(await response.text()).toBe("id,name\n1,Alice\n");
+	});
+
+	it("toKoa should stream Readable bodies", async () => {
+		const h = handler().handle(async () => ({
+			status: 200,
+			body: Readable.from(["id,name\n", "1,Alice\n"]),
+			headers: { "Content-Type": "text/csv" },
+		}));
+		const url = await serve(appWith(toKoa(h)));
+
+		const response = await fetch(url);
+
+		expect(response.headers.get("content-type")).toBe("text/csv");
+		expect(await response.text()).toBe("id,name\n1,Alice\n");
+	});
+
+	it("toKoa should send no body for undefined bodies", async () => {
+		const h = handler().handle(async () => respond(204, undefined));
+		const url = await serve(appWith(toKoa(h)));
+
+		const response = await fetch(url, { method: "DELETE" });
+
+		expect(response.status).toBe(204);
+		expect(await response.text()).toBe("");
+	});
+
+	it("toKoa should keep the status when the body is undefined", async () => {
+		const h = handler().handle(async () => ({ status: 202, body: undefined }));
+		const url = await serve(appWith(toKoa(h)));
+
+		const response = await fetch(url, { method: "POST" });
+
+		expect(response.status).toBe(202);
+		expect(await response.text()).toBe("");
+	});
+
+	it("toKoa should respond 400 for validation errors", async () => {
+		const h = handler()
+			.input(z.object({ name: z.string() }))
+			.handle(async () => ({}));
+		const url = await serve(appWith(toKoa(h)));
+
+		const response = await postJson(url, { name: 1 });
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({ error: "ValidationError" });
+	});
+
+	it("toKoa should map thrown errors with the error handler", async () => {
+		const h = handler().handle(async () => {
+			throw new NotFoundError("User not found");
+		});
+		const url = await serve(appWith(toKoa(h)));
+
+		const response = await fetch(url);
+
+		expect(response.status).toBe(404);
+		expect(response.headers.get("content-type")).toBe("application/problem+json");
+		expect(await response.json()).toMatchObject({ detail: "User not found" });
+	});
+
+	it("toKoa should use onError responses", async () => {
+		const h = handler()
+			.handle(async () => {
+				throw new HandlerError("Quota exceeded", 429);
+			})
+			.onError(() => ({ status: 503, body: { retry: true } }));
+		const url = await serve(appWith(toKoa(h)));
+
+		const response = await fetch(url);
+
+		expect(response.status).toBe(503);
+		expect(await response.json()).toEqual({ retry: true });
+	});
+
+	it("toKoa should rethrow errors the error handler leaves to Koa", async () => {
+		const boom = new Error("boom");
+		const h = handler().handle(async () => {
+			throw boom;
+		});
+		let caught: unknown;
+		const app = new Koa()
+			.use(async (ctx, next) => {
+				try {
+					await next();
+				} catch (error) {
+					caught = error;
+					ctx.status = 500;
+				}
+			})
+			.use(toKoa(h));
+		const url = await serve(app);
+
+		const response = await fetch(url);
+
+		expect(response.status).toBe(500);
+		expect(caught).toBe(boom);
+	});
+
+	it("toKoa should pass ctx and an abort signal as context", async () => {
+		let seen: KoaContext | undefined;
+		const h = handler<KoaContext>().handle(async (_input, context) => {
+			seen = context;
+			return {};
+		});
+		const url = await serve(appWith(toKoa(h)));
+
+		await fetch(`${url}/ping`);
+
+		expect((seen?.ctx as Koa.Context | undefined)?.path).toBe("/ping");
+		expect(seen?.signal).toBeInstanceOf(AbortSignal);
+	});
+
+	it("toKoa should abort the signal when the client disconnects", async () => {
+		const client = new AbortController();
+		let aborted: (value: boolean | undefined) => void = () => {};
+		const seen = new Promise<boolean | undefined>((resolve) => {
+			aborted = resolve;
+		});
+		const h = handler<KoaContext>().handle(async (_input, context) => {
+			client.abort();
+			await new Promise((resolve) => context.signal?.addEventListener("abort", resolve));
+			aborted(context.signal?.aborted);
+			return {};
+		});
+		const url = await serve(appWith(toKoa(h)));
+
+		await fetch(url, { signal: client.signal }).catch(() => undefined);
+
+		expect(await seen).toBe(true);
+	});
+
+	it("toKoa should stream AsyncIterable outputs", async () => {
+		const h = handler()
+			.stream({ format: "sse" })
+			.handle(async function* () {
+				yield { n: 1 };
+				yield { n: 2 };
+			});
+		const url = await serve(appWith(toKoa(h)));
+
+		const response = await fetch(url);
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get("content-type")).toBe("text/event-stream");
+		expect(await response.text()).toBe('data: {"n":1}\n\ndata: {"n":2}\n\n');
+	});
+});
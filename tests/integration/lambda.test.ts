@@ -0,0 +1,241 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+	type ALBEvent,
+	type APIGatewayProxyEvent,
+	type APIGatewayProxyEventV2,
+	type LambdaContext,
+	type LambdaInvocationContext,
+	toLambda,
+} from "../../src/adapters/lambda.js";
+import { HandlerError, NotFoundError, handler, respond } from "../../src/index.js";
+
+function fixture<T>(name: string): T {
+	return JSON.parse(
+		readFileSync(new URL(`./fixtures/lambda/${name}.json`, import.meta.url), "utf8"),
+	);
+}
+
+const v1Event = () => fixture<APIGatewayProxyEvent>("api-gateway-v1");
+const v2Event = () => fixture<APIGatewayProxyEventV2>("api-gateway-v2");
+const albEvent = () => fixture<ALBEvent>("alb");
+
+const usersHandler = handler()
+	.input({
+		body: z.object({ name: z.string() }),
+		query: z.object({ page: z.string(), tag: z.array(z.string()) }),
+		params: z.object({ id: z.string() }),
+		headers: z.object({ "x-tenant": z.string() }),
+	})
+	.handle(async (input) => input);
+
+const expectedInput = {
+	body: { name: "Alice" },
+	query: { page: "2", tag: ["a", "b"] },
+	params: { id: "42" },
+	headers: { "x-tenant": "acme" },
+};
+
+describe("Lambda Adapter", () => {
+	it("toLambda should normalize API Gateway REST events for multi-input", async () => {
+		const result = await toLambda(usersHandler, { eventSource: "apiGatewayV1" })(v1Event());
+
+		expect(result.statusCode).toBe(200);
+		expect(result.isBase64Encoded).toBe(false);
+		expect(result.multiValueHeaders).toEqual({ "Content-Type": ["application/json"] });
+		expect(result.headers).toBeUndefined();
+		expect(JSON.parse(result.body)).toEqual(expectedInput);
+	});
+
+	it("toLambda should normalize API Gateway HTTP API events with base64 bodies", async () => {
+		const result = await toLambda(usersHandler, { eventSource: "apiGatewayV2" })(v2Event());
+
+		expect(result.statusCode).toBe(200);
+		expect(result.headers).toEqual({ "Content-Type": "application/json" });
+		expect(JSON.parse(result.body)).toEqual(expectedInput);
+	});
+
+	it("toLambda should pass HTTP API cookies as a cookie header", async () => {
+		const h = handler()
+			.input({ headers: z.object({ cookie: z.string() }) })
+			.handle(async (input) => ({ cookie: input.headers.cookie }));
+
+		const result = await toLambda(h)(v2Event());
+
+		expect(JSON.parse(result.body)).toEqual({ cookie: "session=abc; theme=dark" });
+	});
+
+	it("toLambda should normalize ALB events and decode their query strings", async () => {
+		const h = handler()
+			.input({
+				body: z.object({ name: z.string() }),
+				query: z.object({ page: z.string(), q: z.string() }),
+				params: z.object({}),
+			})
+			.handle(async (input) => input);
+
+		const result = await toLambda(h, { eventSource: "alb" })(albEvent());
+
+		expect(result.statusCode).toBe(200);
+		expect(result.statusDescription).toBe("200 OK");
+		expect(result.headers).toEqual({ "Content-Type": "application/json" });
+		expect(JSON.parse(result.body)).toEqual({
+			body: { name: "Alice" },
+			query: { page: "2", q: "hello world" },
+			params: {},
+		});
+	});
+
+	it("toLambda should detect the event source when not configured", async () => {
+		const h = handler().handle(async () => ({ ok: true }));
+		const lambda = toLambda(h);
+
+		expect((await lambda(v1Event())).multiValueHeaders).toBeDefined();
+		expect((await lambda(v2Event())).statusDescription).toBeUndefined();
+		expect((await lambda(albEvent())).statusDescription).toBe("200 OK");
+	});
+
+	it("toLambda should pass the body as input for single input", async () => {
+		const h = handler()
+			.input(z.object({ name: z.string() }))
+			.handle(async (input) => ({ message: `Hello ${input.name}` }));
+
+		const result = await toLambda(h)(v2Event());
+
+		expect(JSON.parse(result.body)).toEqual({ message: "Hello Alice" });
+	});
+
+	it("toLambda should pass the event and Lambda context as context", async () => {
+		let seen: LambdaContext | undefined;
+		const h = handler<LambdaContext>().handle(async (_input, ctx) => {
+			seen = ctx;
+			return {};
+		});
+		const event = v1Event();
+		const invocation: LambdaInvocationContext = {
+			awsRequestId: "req-1",
+			functionName: "users",
+			getRemainingTimeInMillis: () => 3000,
+		};
+
+		await toLambda(h)(event, invocation);
+
+		expect(seen?.event).toBe(event);
+		expect(seen?.context).toBe(invocation);
+	});
+
+	it("toLambda should respond 400 for validation errors", async () => {
+		const h = handler()
+			.input(z.object({ name: z.number() }))
+			.handle(async () => ({}));
+
+		const result = await toLambda(h)(v2Event());
+
+		expect(result.statusCode).toBe(400);
+		expect(JSON.parse(result.body)).toMatchObject({ error: "ValidationError" });
+	});
+
+	it("toLambda should respond 400 for invalid JSON bodies", async () => {
+		const h = handler().handle(async () => ({}));
+		const event = { ...v1Event(), body: "{" };
+
+		const result = await toLambda(h)(event);
+
+		expect(result.statusCode).toBe(400);
+		expect(result.multiValueHeaders?.["Content-Type"]).toEqual(["application/problem+json"]);
+		expect(JSON.parse(result.body)).toMatchObject({ detail: "Invalid JSON body" });
+	});
+
+	it("toLambda should map thrown errors with the error handler", async () => {
+		const h = handler().handle(async () => {
+			throw new NotFoundError("User not found");
+		});
+
+		const result = await toLambda(h)(albEvent());
+
+		expect(result.statusCode).toBe(404);
+		expect(result.statusDescription).toBe("404 Not Found");
+		expect(JSON.parse(result.body)).toMatchObject({ detail: "User not found" });
+	});
+
+	it("toLambda should use onError responses", async () => {
+		const h = handler()
+			.handle(async () => {
+				throw new HandlerError("Quota exceeded", 429);
+			})
+			.onError(() => ({ status: 503, body: { retry: true } }));
+
+		const result = await toLambda(h)(v2Event());
+
+		expect(result.statusCode).toBe(503);
+		expect(JSON.parse(result.body)).toEqual({ retry: true });
+	});
+
+	it("toLambda should rethrow errors the error handler leaves to the runtime", async () => {
+		const boom = new Error("boom");
+		const h = handler().handle(async () => {
+			throw boom;
+		});
+
+		await expect(toLambda(h)(v2Event())).rejects.toBe(boom);
+	});
+
+	it("toLambda should return set-cookie as cookies for HTTP API events", async () => {
+		const h = handler().handle(async () => ({
+			status: 201,
+			body: { id: "1" },
+			headers: { Location: "/users/1", "Set-Cookie": "session=xyz" },
+		}));
+
+		const result = await toLambda(h)(v2Event());
+
+		expect(result.statusCode).toBe(201);
+		expect(result.cookies).toEqual(["session=xyz"]);
+		expect(result.headers).toEqual({ Location: "/users/1", "Content-Type": "application/json" });
+	});
+
+	it("toLambda should send raw string bodies and base64 encode binary bodies", async () => {
+		const html = handler().handle(async () => ({
+			status: 200,
+			body: "<p>Hi</p>",
+			headers: { "Content-Type": "text/html" },
+		}));
+		const binary = handler().handle(async () => ({
+			status: 200,
+			body: new Uint8Array([1, 2, 3]),
+			headers: { "Content-Type": "application/octet-stream" },
+		}));
+
+		const htmlResult = await toLambda(html)(v2Event());
+		const binaryResult = await toLambda(binary)(v2Event());
+
+		expect(htmlResult.body).toBe("<p>Hi</p>");
+		expect(htmlResult.isBase64Encoded).toBe(false);
+		expect(binaryResult.body).toBe("AQID");
+		expect(binaryResult.isBase64Encoded).toBe(true);
+	});
+
+	it("toLambda should send an empty body for 204 responses", async () => {
+		const h = handler().handle(async () => respond(204, undefined));
+
+		const result = await toLambda(h)(v1Event());
+
+		expect(result.statusCode).toBe(204);
+		expect(result.body).toBe("");
+	});
+
+	it("toLambda should buffer streaming outputs into one body", async () => {
+		const h = handler()
+			.stream({ format: "ndjson" })
+			.handle(async function* () {
+				yield { n: 1 };
+				yield { n: 2 };
+			});
+
+		const result = await toLambda(h)(v2Event());
+
+		expect(result.headers?.["Content-Type"]).toBe("application/x-ndjson");
+		expect(result.body).toBe('{"n":1}\n{"n":2}\n');
+	});
+});
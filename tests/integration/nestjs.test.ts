@@ -0,0 +1,257 @@
+import "reflect-metadata";
+import type { AddressInfo } from "node:net";
+import {
+	Body,
+	Controller,
+	Get,
+	HttpException,
+	type INestApplication,
+	Injectable,
+	Post,
+	Res,
+} from "@nestjs/common";
+import { MessagePattern, RpcException } from "@nestjs/microservices";
+import { Test } from "@nestjs/testing";
+import { afterEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import { HandlerError, ValidationError, handler, respond } from "../../src/index.js";
+import { type NestContext, TypedHandler } from "../../src/nestjs/index.js";
+
+@Injectable()
+class GreetingService {
+	greet(name: string) {
+		return `Hello ${name}`;
+	}
+}
+
+const greetHandler = handler<NestContext & { greetings: GreetingService }>()
+	.input(z.object({ name: z.string() }))
+	.handle(async (input, ctx) => ({ message: ctx.greetings.greet(input.name) }));
+
+const failingHandler = handler().handle(async () => {
+	throw new HandlerError("Quota exceeded", 429);
+});
+
+@Controller("greetings")
+class GreetingController {
+	@Post()
+	@TypedHandler(greetHandler, { inject: { greetings: GreetingService } })
+	create(_body: unknown): unknown {
+		return undefined;
+	}
+
+	@Post("fail")
+	@TypedHandler(failingHandler)
+	fail(): unknown {
+		return undefined;
+	}
+}
+
+@Controller()
+class GreetingMessages {
+	@TypedHandler(greetHandler, { inject: { greetings: GreetingService }, transport: "rpc" })
+	@MessagePattern("greet")
+	greet(_payload: unknown, _rpcContext?: unknown): unknown {
+		return undefined;
+	}
+}
+
+@Injectable()
+class GreetingListener {
+	@TypedHandler(greetHandler, { inject: { greetings: GreetingService }, transport: "event" })
+	onUserCreated(_payload: unknown): unknown {
+		return undefined;
+	}
+}
+
+async function compile() {
+	const moduleRef = await Test.createTestingModule({
+		controllers: [GreetingController, GreetingMessages],
+		providers: [GreetingService, GreetingListener],
+	}).compile();
+	return {
+		controller: moduleRef.get(GreetingController),
+		messages: moduleRef.get(GreetingMessages),
+		listener: moduleRef.get(GreetingListener),
+	};
+}
+
+describe("NestJS TypedHandler", () => {
+	it("should run the handler with injected providers in context", async () => {
+		const { controller } = await compile();
+
+		await expect(controller.create({ name: "Alice" })).resolves.toEqual({
+			message: "Hello Alice",
+		});
+	});
+
+	it("should pass the method arguments as context", async () => {
+		let args: unknown[] | undefined;
+		const h = handler<NestContext>().handle(async (_input, ctx) => {
+			args = ctx.args;
+			return {};
+		});
+
+		class Messages {
+			@TypedHandler(h)
+			handle(_payload: unknown, _rpcContext: unknown): unknown {
+				return undefined;
+			}
+		}
+
+		await new Messages().handle({ id: 1 }, "rpc-context");
+
+		expect(args).toEqual([{ id: 1 }, "rpc-context"]);
+	});
+
+	it("should build input with the input option", async () => {
+		const h = handler()
+			.input({ body: z.object({ name: z.string() }), query: z.object({ page: z.string() }) })
+			.handle(async (input) => input);
+
+		class Users {
+			@TypedHandler(h, { input: (body, query) => ({ body, query }) })
+			list(_body: unknown, _query: unknown): unknown {
+				return undefined;
+			}
+		}
+
+		await expect(new Users().list({ name: "Alice" }, { page: "2" })).resolves.toEqual({
+			body: { name: "Alice" },
+			query: { page: "2" },
+		});
+	});
+
+	it("should throw HttpException for validation errors on http transport", async () => {
+		const { controller } = await compile();
+
+		const error = await Promise.resolve(controller.create({ name: 1 })).catch((e) => e);
+
+		expect(error).toBeInstanceOf(HttpException);
+		expect(error.getStatus()).toBe(400);
+		expect(error.getResponse()).toMatchObject({ error: "ValidationError" });
+	});
+
+	it("should throw HttpException with the HandlerError status", async () => {
+		const { controller } = await compile();
+
+		const error = await Promise.resolve(controller.fail()).catch((e) => e);
+
+		expect(error).toBeInstanceOf(HttpException);
+		expect(error.getStatus()).toBe(429);
+		expect(error.getResponse()).toMatchObject({ message: "Quota exceeded" });
+	});
+
+	it("should throw RpcException on rpc transport", async () => {
+		const { messages } = await compile();
+
+		const error = await Promise.resolve(messages.greet({ name: 1 })).catch((e) => e);
+
+		expect(error).toBeInstanceOf(RpcException);
+		expect(error.getError()).toMatchObject({ status: 400, error: "ValidationError" });
+	});
+
+	it("should keep @MessagePattern metadata when applied before TypedHandler", async () => {
+		const { messages } = await compile();
+
+		expect(Reflect.getMetadata("microservices:pattern", messages.greet)).toEqual(["greet"]);
+		await expect(messages.greet({ name: "Bob" })).resolves.toEqual({ message: "Hello Bob" });
+	});
+
+	it("should rethrow the original error on event transport", async () => {
+		const { listener } = await compile();
+
+		const error = await Promise.resolve(listener.onUserCreated({})).catch((e) => e);
+
+		expect(error).toBeInstanceOf(ValidationError);
+	});
+
+	it("should rethrow errors the error handler does not map", async () => {
+		const boom = new Error("boom");
+		const h = handler().handle(async () => {
+			throw boom;
+		});
+
+		class Jobs {
+			@TypedHandler(h)
+			run(): unknown {
+				return undefined;
+			}
+		}
+
+		await expect(new Jobs().run()).rejects.toBe(boom);
+	});
+});
+
+describe("NestJS TypedHandler over HTTP", () => {
+	let app: INestApplication | undefined;
+
+	afterEach(async () => {
+		await app?.close();
+		app = undefined;
+	});
+
+	const createAccount = handler()
+		.input(z.object({ name: z.string() }))
+		.handle(async (input) => ({
+			status: 202,
+			body: { name: input.name },
+			headers: { Location: "/accounts/1" },
+		}));
+
+	const getAccount = handler()
+		.use(async () => respond(401, { message: "Sign in first" }))
+		.handle(async () => ({ name: "Alice" }));
+
+	@Controller("accounts")
+	class AccountController {
+		@Post()
+		@TypedHandler(createAccount)
+		create(_body: unknown, _res: unknown): unknown {
+			return undefined;
+		}
+
+		@Get("me")
+		@TypedHandler(getAccount)
+		me(): unknown {
+			return undefined;
+		}
+	}
+
+	// Same as @Body() and @Res({ passthrough: true }) on the parameters, which Biome cannot parse
+	Body()(AccountController.prototype, "create", 0);
+	Res({ passthrough: true })(AccountController.prototype, "create", 1);
+
+	async function serve(): Promise<string> {
+		const moduleRef = await Test.createTestingModule({
+			controllers: [AccountController],
+		}).compile();
+		app = moduleRef.createNestApplication({ logger: false });
+		await app.listen(0, "127.0.0.1");
+		const { port } = app.getHttpServer().address() as AddressInfo;
+		return `http://127.0.0.1:${port}`;
+	}
+
+	it("should apply ResponseObject status and headers to the passthrough response", async () => {
+		const url = await serve();
+
+		const response = await fetch(`${url}/accounts`, {
+			method: "POST",
+			headers: { "content-type": "application/json" },
+			body: JSON.stringify({ name: "Alice" }),
+		});
+
+		expect(response.status).toBe(202);
+		expect(response.headers.get("location")).toBe("/accounts/1");
+		expect(await response.json()).toEqual({ name: "Alice" });
+	});
+
+	it("should throw HttpException for ResponseObject error statuses", async () => {
+		const url = await serve();
+
+		const response = await fetch(`${url}/accounts/me`);
+
+		expect(response.status).toBe(401);
+		expect(await response.json()).toEqual({ message: "Sign in first" });
+	});
+});
@@ -0,0 +1,246 @@
+import { type RequestListener, type Server, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+import { type NodeHttpContext, toNodeHttp } from "../../src/adapters/node-http.js";
+import { HandlerError, NotFoundError, handler, respond } from "../../src/index.js";
+
+let server: Server | undefined;
+
+async function serve(listener: RequestListener): Promise<string> {
+	server = createServer(listener);
+	await new Promise<void>((resolve) => server?.listen(0, "127.0.0.1", resolve));
+	const { port } = server.address() as AddressInfo;
+	return `http://127.0.0.1:${port}`;
+}
+
+function postJson(url: string, body: unknown) {
+	return fetch(url, {
+		method: "POST",
+		headers: { "content-type": "application/json" },
+		body: JSON.stringify(body),
+	});
+}
+
+afterEach(async () => {
+	// close() alone waits for fetch's keep-alive sockets to time out
+	server?.closeAllConnections();
+	await new Promise((resolve) => server?.close(resolve));
+	server = undefined;
+});
+
+describe("Node http Adapter", () => {
+	it("toNodeHttp should parse a JSON body for single input", async () => {
+		const h = handler()
+			.input(z.object({ name: z.string() }))
+			.handle(async (input) => ({ message: `Hello ${input.name}` }));
+		const url = await serve(toNodeHttp(h));
+
+		const response = await postJson(`${url}/greet`, { name: "Alice" });
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get("content-type")).toBe("application/json");
+		expect(await response.json()).toEqual({ message: "Hello Alice" });
+	});
+
+	it("toNodeHttp should extract body/query/params/headers for multi-input", async () => {
+		const h = handler()
+			.input({
+				body: z.object({ name: z.string() }),
+				query: z.object({ tag: z.array(z.string()), page: z.string() }),
+				params: z.object({ id: z.string() }),
+				headers: z.object({ "x-tenant": z.string() }),
+			})
+			.handle(async (input) => input);
+		const url = await serve(
+			toNodeHttp(h, { params: (req) => ({ id: req.url?.split(/[/?]/)[2] ?? "" }) }),
+		);
+
+		const response = await fetch(`${url}/users/42?tag=a&tag=b&page=2`, {
+			method: "PUT",
+			headers: { "content-type": "application/json", "X-Tenant": "acme" },
+			body: JSON.stringify({ name: "Alice" }),
+		});
+
+		expect(await response.json()).toEqual({
+			body: { name: "Alice" },
+			query: { tag: ["a", "b"], page: "2" },
+			params: { id: "42" },
+			headers: { "x-tenant": "acme" },
+		});
+	});
+
+	it("toNodeHttp should parse urlencoded and text bodies", async () => {
+		const h = handler().handle(async (input) => ({ received: input }));
+		const url = await serve(toNodeHttp(h));
+
+		const urlencoded = await fetch(url, {
+			method: "POST",
+			headers: { "content-type": "application/x-www-form-urlencoded" },
+			body: "name=Alice&role=admin&role=user",
+		});
+		const text = await fetch(url, {
+			method: "POST",
+			headers: { "content-type": "text/plain" },
+			body: "hello",
+		});
+
+		expect(await urlencoded.json()).toEqual({
+			received: { name: "Alice", role: ["admin", "user"] },
+		});
+		expect(await text.json()).toEqual({ received: "hello" });
+	});
+
+	it("toNodeHttp should respond 413 for bodies over the limit", async () => {
+		const h = handler().handle(async () => ({}));
+		const url = await serve(toNodeHttp(h, { bodyLimit: 16 }));
+
+		const response = await postJson(url, { name: "a name that is too long" });
+
+		expect(response.status).toBe(413);
+		expect(response.headers.get("content-type")).toBe("application/problem+json");
+		expect(await response.json()).toMatchObject({ detail: "Request body exceeds 16 bytes" });
+	});
+
+	it("toNodeHttp should respond 400 for invalid JSON bodies", async () => {
+		const h = handler().handle(async () => ({}));
+		const url = await serve(toNodeHttp(h));
+
+		const response = await fetch(url, {
+			method: "POST",
+			headers: { "content-type": "application/json" },
+			body: "{",
+		});
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({ detail: "Invalid JSON body" });
+	});
+
+	it("toNodeHttp should respond 400 for validation errors", async () => {
+		const h = handler()
+			.input(z.object({ name: z.string() }))
+			.handle(async () => ({}));
+		const url = await serve(toNodeHttp(h));
+
+		const response = await postJson(url, { name: 1 });
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({ error: "ValidationError" });
+	});
+
+	it("toNodeHttp should write ResponseObject status and headers", async () => {
+		const h = handler().handle(async () => ({
+			status: 201,
+			body: { id: "1" },
+			headers: { Location: "/users/1" },
+		}));
+		const url = await serve(toNodeHttp(h));
+
+		const response = await postJson(`${url}/users`, {});
+
+		expect(response.status).toBe(201);
+		expect(response.headers.get("location")).toBe("/users/1");
+		expect(await response.json()).toEqual({ id: "1" });
+	});
+
+	it("toNodeHttp should send raw bodies with a non-JSON content type", async () => {
+		const h = handler().handle(async () => ({
+			status: 200,
+			body: "<p>Hi</p>",
+			headers: { "Content-Type": "text/html" },
+		}));
+		const url = await serve(toNodeHttp(h));
+
+		const response = await fetch(url);
+
+		expect(response.headers.get("content-type")).toBe("text/html");
+		expect(await response.text()).toBe("<p>Hi</p>");
+	});
+
+	it("toNodeHttp should send no body for 204 responses", async () => {
+		const h = handler().handle(async () => respond(204, undefined));
+		const url = await serve(toNodeHttp(h));
+
+		const response = await fetch(url, { method: "DELETE" });
+
+		expect(response.status).toBe(204);
+		expect(await response.text()).toBe("");
+	});
+
+	it("toNodeHttp should map thrown errors with the error handler", async () => {
+		const h = handler().handle(async () => {
+			throw new NotFoundError("User not found");
+		});
+		const url = await serve(toNodeHttp(h));
+
+		const response = await fetch(`${url}/users/1`);
+
+		expect(response.status).toBe(404);
+		expect(await response.json()).toMatchObject({ title: "Not Found", detail: "User not found" });
+	});
+
+	it("toNodeHttp should use onError responses", async () => {
+		const h = handler()
+			.handle(async () => {
+				throw new HandlerError("Quota exceeded", 429);
+			})
+			.onError(() => ({ status: 503, body: { retry: true } }));
+		const url = await serve(toNodeHttp(h));
+
+		const response = await fetch(url);
+
+		expect(response.status).toBe(503);
+		expect(await response.json()).toEqual({ retry: true });
+	});
+
+	it("toNodeHttp should respond 500 for errors the error handler does not map", async () => {
+		const h = handler().handle(async () => {
+			throw new Error("boom");
+		});
+		const url = await serve(toNodeHttp(h));
+
+		const response = await fetch(url);
+
+		expect(response.status).toBe(500);
+		expect(await response.json()).toMatchObject({ title: "Internal Server Error" });
+	});
+
+	it("toNodeHttp should pass req, res and a signal as context", async () => {
+		let seen: NodeHttpContext | undefined;
+		const h = handler<NodeHttpContext>().handle(async (_input, ctx) => {
+			seen = ctx;
+			return {};
+		});
+		const url = await serve(toNodeHttp(h));
+
+		await fetch(`${url}/ping`);
+
+		expect(seen?.req.url).toBe("/ping");
+		expect(seen?.res).toBeDefined();
+		expect(seen?.signal).toBeInstanceOf(AbortSignal);
+	});
+
+	it("toNodeHttp should stream AsyncIterable outputs", async () => {
+		const h = handler()
+			.stream({ format: "ndjson" })
+			.handle(async function* () {
+				yield { n: 1 };
+				yield { n: 2 };
+			});
+		const url = await serve(toNodeHttp(h));
+
+		const response = await fetch(`${url}/events`);
+
+		expect(response.headers.get("content-type")).toBe("application/x-ndjson");
+		expect(await response.text()).toBe('{"n":1}\n{"n":2}\n');
+	});
+
+	it("nodeHttp() should serve a handler with http.createServer", async () => {
+		const h = handler().handle(async () => ({ ok: true }));
+		const url = await serve(await h.nodeHttp());
+
+		const response = await fetch(url);
+
+		expect(await response.json()).toEqual({ ok: true });
+	});
+});
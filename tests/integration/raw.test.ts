@@ -1,7 +1,7 @@
 import { describe, expect, it } from "vitest";
 import { z } from "zod";
 import { toRaw } from "../../src/adapters/raw.js";
-import { handler } from "../../src/index.js";
+import { HandlerError, handler } from "../../src/index.js";
 
 describe("Raw Adapter", () => {
 	it("toRaw should return RawHandler interface", () => {
@@ -132,4 +132,61 @@ describe("Raw Adapter", () => {
 
 		expect(result).toEqual({ result: 15, multiplier: 3 });
 	});
+
+	it("toRaw respond should wrap results in a ResponseObject", async () => {
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.handle(async (input) => ({ result: input.value * 2 }));
+
+		const rawHandler = toRaw(h);
+
+		await expect(rawHandler.respond({ value: 5 }, {})).resolves.toEqual({
+			status: 200,
+			body: { result: 10 },
+		});
+	});
+
+	it("toRaw respond should map errors through the error handler", async () => {
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.handle(async () => {
+				throw new HandlerError("Conflict", 409);
+			});
+
+		const rawHandler = toRaw(h);
+
+		await expect(rawHandler.respond({ value: 5 }, {})).resolves.toEqual({
+			status: 409,
+			body: { error: "HandlerError", message: "Conflict" },
+		});
+	});
+
+	it("toRaw respond should rethrow errors the error handler does not map", async () => {
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.handle(async () => {
+				throw new Error("Handler error");
+			});
+
+		const rawHandler = toRaw(h);
+
+		await expect(rawHandler.respond({ value: 5 }, {})).rejects.toThrow("Handler error");
+	});
+
+	it("toRaw safeExecute should resolve to a result instead of throwing", async () => {
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.handle(async (input) => ({ doubled: input.value * 2 }));
+
+		const rawHandler = toRaw(h);
+
+		await expect(rawHandler.safeExecute({ value: 2 })).resolves.toEqual({
+			ok: true,
+			value: { doubled: 4 },
+		});
+
+		const result = await rawHandler.safeExecute({ value: "x" } as unknown as { value: number });
+		expect(result.ok).toBe(false);
+		expect(!result.ok && result.stage).toBe("input");
+	});
 });
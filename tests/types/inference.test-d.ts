@@ -2,7 +2,15 @@ import Joi from "joi";
 import { expectAssignable, expectType } from "tsd";
 import * as yup from "yup";
 import { z } from "zod";
-import { handler } from "../../src/index.js";
+import type { ExpressContext } from "../../src/adapters/index.js";
+import {
+	type Router,
+	type StandardSchemaV1,
+	createClient,
+	handler,
+	respond,
+	router,
+} from "../../src/index.js";
 
 const zodInputSchema = z.object({ name: z.string(), age: z.number() });
 const zodOutputSchema = z.object({ message: z.string() });
@@ -152,3 +160,204 @@ const h13 = handler()
 expectType<Promise<{ success: boolean; data: { message: string } }>>(
 	h13.execute({ name: "Bob", age: 25 }, {}),
 );
+
+const h14 = handler().input(zodInputSchema).output(zodOutputSchema);
+
+expectType<Promise<{ message: string }>>(h14.execute({ name: "Alice", age: 30 }, {}));
+
+const h15 = handler()
+	.input({
+		body: yupInputSchema,
+		headers: z.object({ authorization: z.string() }),
+	})
+	.handle((input) => {
+		expectType<{
+			body: { username: string };
+			headers: { authorization: string };
+		}>(input);
+		return { user: input.body.username };
+	});
+
+const h16 = handler()
+	.input(
+		{ custom: true },
+		{
+			parse: (_schema, data) => data as { token: string },
+		},
+	)
+	.handle((input) => {
+		expectType<{ token: string }>(input);
+		return { ok: true };
+	});
+
+declare const standardSchema: StandardSchemaV1<{ id: string }, { id: number }>;
+
+const h17 = handler()
+	.input(standardSchema)
+	.handle((input) => {
+		expectType<{ id: number }>(input);
+		return { id: input.id };
+	})
+	.output(standardSchema);
+
+expectType<Promise<{ id: number }>>(h17.execute({ id: "1" }, {}));
+
+const h18 = handler()
+	.input(zodInputSchema)
+	.use(async () => ({ user: { id: "123" } }))
+	.around<{ tx: { commit(): void } }>(async (_input, ctx, next) => {
+		expectType<{ user: { id: string } }>(ctx);
+		return next({ tx: { commit: () => {} } });
+	})
+	.handle((input, ctx) => {
+		expectType<{ name: string; age: number }>(input);
+		expectType<{ user: { id: string } } & { tx: { commit(): void } }>(ctx);
+		return { message: "ok" };
+	});
+
+const h18b = handler()
+	.input(zodInputSchema)
+	.use(async () => ({ user: { id: "123" } }))
+	.around(async (_input, _ctx, next) => next({ tx: { commit: () => {} } }))
+	.around(async (_input, _ctx, next) => {
+		try {
+			return await next();
+		} finally {
+			// cleanup
+		}
+	})
+	.handle((_input, ctx) => {
+		expectType<{ id: string }>(ctx.user);
+		expectType<{ commit: () => void }>(ctx.tx);
+		return { message: "ok" };
+	});
+
+const h19 = handler<{ token?: string }>()
+	.input(zodInputSchema)
+	.use(async (_input, ctx) => {
+		if (!ctx.token) {
+			return respond(401, { error: "Unauthorized" });
+		}
+		return { user: { id: ctx.token } };
+	})
+	.handle((_input, ctx) => {
+		expectType<string>(ctx.user.id);
+		return { message: "ok" };
+	});
+
+const h20 = handler<ExpressContext>()
+	.input(zodInputSchema)
+	.before((input, ctx) => {
+		expectType<unknown>(input);
+		expectType<string | undefined>(ctx.req.headers.authorization);
+		return { context: { token: ctx.req.headers.authorization ?? "" } };
+	})
+	.handle((_input, ctx) => {
+		expectType<string>(ctx.token);
+		return { message: "ok" };
+	});
+
+const h21 = handler()
+	.input(zodInputSchema)
+	.timeout(1000)
+	.handle((_input, ctx) => {
+		expectType<AbortSignal>(ctx.signal);
+		return { message: "ok" };
+	});
+
+const h22 = handler()
+	.input(zodInputSchema)
+	.retry({ attempts: 3, backoff: "exponential" })
+	.handle((_input, ctx) => {
+		expectType<number>(ctx.attempt);
+		return { message: "ok" };
+	});
+
+const h23 = handler()
+	.input(zodInputSchema)
+	.handle((input) => ({ message: input.name }));
+
+h23.safeExecute({ name: "Alice", age: 1 }).then((result) => {
+	if (result.ok) {
+		expectType<{ message: string }>(result.value);
+	} else {
+		expectType<"input" | "middleware" | "handler" | "transform" | "output">(result.stage);
+	}
+});
+
+const h24 = handler()
+	.stream({ format: "sse" })
+	.handle(async function* () {
+		yield { progress: 1 };
+	});
+
+expectType<AsyncGenerator<{ progress: number }, void, unknown>>(await h24.execute({}));
+
+const h25 = handler()
+	.input({ kind: "custom" })
+	.handle((input) => {
+		expectType<unknown>(input);
+		return { ok: true };
+	});
+
+const h26 = handler()
+	.input<{ id: string }>(z.object({ id: z.string() }))
+	.handle((input) => {
+		expectType<{ id: string }>(input);
+		return { message: input.id };
+	})
+	.output<{ message: string }>(zodOutputSchema);
+
+expectType<Promise<{ message: string }>>(h26.execute({ id: "1" }, {}));
+
+const getProject = handler()
+	.input({ params: z.object({ orgId: z.string(), id: z.string() }) })
+	.handle((input) => ({ id: input.params.id }));
+
+const r1 = router()
+	.use(async () => ({ user: { id: "1" } }))
+	.group("/orgs/:orgId", (r) => r.get("/projects/:id", getProject))
+	.post("/health", h1);
+
+type R1Routes = typeof r1 extends Router<infer _C, infer TRoutes, infer _P> ? TRoutes : never;
+
+expectType<typeof getProject>({} as R1Routes["/orgs/:orgId/projects/:id"]["get"]);
+expectType<typeof h1>({} as R1Routes["/health"]["post"]);
+
+// @ts-expect-error - the handler's orgId param is not in the route path
+router().get("/projects/:id", getProject);
+
+const createProject = handler()
+	.input({ params: z.object({ orgId: z.string() }), body: z.object({ name: z.string() }) })
+	.handle((input) =>
+		input.body.name
+			? { status: 201 as const, body: { id: "1" } }
+			: { status: 409 as const, body: { reason: "exists" } },
+	);
+
+const api = router()
+	.group("/orgs/:orgId", (r) => r.get("/projects/:id", getProject).post("/projects", createProject))
+	.post("/greet", h1)
+	.get(
+		"/health",
+		handler().handle(() => ({ ok: true })),
+	);
+
+const client = createClient<typeof api>({ baseUrl: "http://localhost" });
+
+expectType<Promise<{ status: 200; body: { id: string }; headers: Headers }>>(
+	client.get("/orgs/:orgId/projects/:id", { params: { orgId: "o", id: "1" } }),
+);
+expectType<
+	Promise<
+		| { status: 201; body: { id: string }; headers: Headers }
+		| { status: 409; body: { reason: string }; headers: Headers }
+	>
+>(client.post("/orgs/:orgId/projects", { params: { orgId: "o" }, body: { name: "x" } }));
+client.post("/greet", { body: { name: "Alice", age: 30 } });
+client.get("/health");
+
+// @ts-expect-error - /greet is not registered for GET
+client.get("/greet");
+// @ts-expect-error - params are required
+client.get("/orgs/:orgId/projects/:id");
@@ -0,0 +1,228 @@
+import { Hono } from "hono";
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+	ConflictError,
+	HandlerError,
+	HttpError,
+	ValidationError,
+	createClient,
+	handler,
+	router,
+} from "../../src/index.js";
+
+function jsonResponse(body: unknown, status = 200, contentType = "application/json") {
+	return new Response(JSON.stringify(body), { status, headers: { "content-type": contentType } });
+}
+
+const getUser = handler()
+	.input({
+		params: z.object({ id: z.string() }),
+		query: z.object({ fields: z.array(z.string()).optional(), verbose: z.string().optional() }),
+	})
+	.handle((input) => ({ id: input.params.id }));
+
+const createUser = handler()
+	.input(z.object({ name: z.string() }))
+	.handle((input) => ({ status: 201 as const, body: { name: input.name } }));
+
+const api = router()
+	.get("/users/:id", getUser)
+	.post("/users", createUser)
+	.delete(
+		"/users/:id",
+		handler().handle(() => ({ status: 204 as const, body: undefined })),
+	);
+
+describe("createClient", () => {
+	it("should serialize params and query into the URL", async () => {
+		const fetch = vi.fn().mockResolvedValue(jsonResponse({ id: "a b" }));
+		const client = createClient<typeof api>({ baseUrl: "https://api.test/", fetch });
+
+		const response = await client.get("/users/:id", {
+			params: { id: "a b" },
+			query: { fields: ["name", "email"], verbose: undefined },
+		});
+
+		expect(fetch).toHaveBeenCalledWith("https://api.test/users/a%20b?fields=name&fields=email", {
+			method: "GET",
+			headers: {},
+			body: undefined,
+			signal: undefined,
+		});
+		expect(response.status).toBe(200);
+		expect(response.body).toEqual({ id: "a b" });
+	});
+
+	it("should send the body as JSON with default and per-request headers", async () => {
+		const fetch = vi.fn().mockResolvedValue(jsonResponse({ name: "Alice" }, 201));
+		const client = createClient<typeof api>({
+			baseUrl: "https://api.test",
+			fetch,
+			headers: { authorization: "Bearer token" },
+		});
+		const controller = new AbortController();
+
+		const response = await client.post("/users", {
+			body: { name: "Alice" },
+			headers: { "x-request-id": "1" },
+			signal: controller.signal,
+		});
+
+		expect(fetch).toHaveBeenCalledWith("https://api.test/users", {
+			method: "POST",
+			headers: {
+				authorization: "Bearer token",
+				"x-request-id": "1",
+				"content-type": "application/json",
+			},
+			body: JSON.stringify({ name: "Alice" }),
+			signal: controller.signal,
+		});
+		expect(response).toMatchObject({ status: 201, body: { name: "Alice" } });
+	});
+
+	it("should return an empty body as undefined", async () => {
+		const fetch = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+		const client = createClient<typeof api>({ baseUrl: "https://api.test", fetch });
+
+		const response = await client.delete("/users/:id", { params: { id: "1" } });
+
+		expect(response.status).toBe(204);
+		expect(response.body).toBeUndefined();
+	});
+
+	it("should throw when a path param is missing", async () => {
+		const client = createClient<typeof api>({ baseUrl: "https://api.test", fetch: vi.fn() });
+
+		await expect(
+			client.get("/users/:id", { params: {} as { id: string }, query: {} }),
+		).rejects.toThrow('Missing path param "id" for /users/:id');
+	});
+
+	it("should return non-error JSON bodies for error statuses", async () => {
+		const fetch = vi.fn().mockResolvedValue(jsonResponse({ reason: "exists" }, 409));
+		const client = createClient<typeof api>({ baseUrl: "https://api.test", fetch });
+
+		const response = await client.post("/users", { body: { name: "Alice" } });
+
+		expect(response).toMatchObject({ status: 409, body: { reason: "exists" } });
+	});
+
+	describe("errors", () => {
+		it("should rebuild ValidationError from a validation error body", async () => {
+			const issues = [{ path: ["name"], message: "Required", code: "invalid_type" }];
+			const fetch = vi
+				.fn()
+				.mockResolvedValue(
+					jsonResponse({ error: "ValidationError", message: "Validation failed", issues }, 400),
+				);
+			const client = createClient<typeof api>({ baseUrl: "https://api.test", fetch });
+
+			const error = await client.post("/users", { body: { name: "" } }).catch((e) => e);
+
+			expect(error).toBeInstanceOf(ValidationError);
+			expect(error.message).toBe("Validation failed");
+			expect(error.issues).toEqual(issues);
+		});
+
+		it("should rebuild HttpError from a problem details body", async () => {
+			const problem = new ConflictError("Name taken", { extensions: { field: "name" } });
+			const fetch = vi
+				.fn()
+				.mockResolvedValue(jsonResponse(problem.toProblem(), 409, "application/problem+json"));
+			const client = createClient<typeof api>({ baseUrl: "https://api.test", fetch });
+
+			const error = await client.post("/users", { body: { name: "Alice" } }).catch((e) => e);
+
+			expect(error).toBeInstanceOf(HttpError);
+			expect(error.statusCode).toBe(409);
+			expect(error.title).toBe("Conflict");
+			expect(error.detail).toBe("Name taken");
+			expect(error.extensions).toEqual({ field: "name" });
+		});
+
+		it("should rebuild HandlerError from an error body", async () => {
+			const fetch = vi
+				.fn()
+				.mockResolvedValue(
+					jsonResponse(
+						{ error: "QuotaError", message: "Quota exceeded", details: { limit: 5 } },
+						429,
+					),
+				);
+			const client = createClient<typeof api>({ baseUrl: "https://api.test", fetch });
+
+			const error = await client.post("/users", { body: { name: "Alice" } }).catch((e) => e);
+
+			expect(error).toBeInstanceOf(HandlerError);
+			expect(error.name).toBe("QuotaError");
+			expect(error.statusCode).toBe(429);
+			expect(error.details).toEqual({ limit: 5 });
+		});
+
+		it("should throw HandlerError for non-JSON error responses", async () => {
+			const fetch = vi.fn().mockResolvedValue(new Response("Bad Gateway", { status: 502 }));
+			const client = createClient<typeof api>({ baseUrl: "https://api.test", fetch });
+
+			const error = await client
+				.get("/users/:id", { params: { id: "1" }, query: {} })
+				.catch((e) => e);
+
+			expect(error).toBeInstanceOf(HandlerError);
+			expect(error.message).toBe("Request failed with status 502");
+			expect(error.details).toBe("Bad Gateway");
+		});
+
+		it("should reject with HandlerError thrown by a mounted handler", async () => {
+			const register = handler()
+				.input(z.object({ email: z.string() }))
+				.handle(async (): Promise<{ id: string }> => {
+					throw new HandlerError("Email taken", 409);
+				});
+			const accounts = router().post("/register", register);
+			const app = new Hono();
+			await accounts.toHono(app);
+			const client = createClient<typeof accounts>({
+				baseUrl: "http://localhost",
+				fetch: (input, init) => Promise.resolve(app.request(input as string, init)),
+			});
+
+			const error = await client
+				.post("/register", { body: { email: "a@example.com" } })
+				.catch((e) => e);
+
+			expect(error).toBeInstanceOf(HandlerError);
+			expect(error.statusCode).toBe(409);
+			expect(error.message).toBe("Email taken");
+		});
+	});
+
+	it("should call routes mounted from the same router", async () => {
+		const users = router()
+			.post("/users", createUser)
+			.put(
+				"/users/:id",
+				handler()
+					.input({ params: z.object({ id: z.string() }), body: z.object({ name: z.string() }) })
+					.handle((input) => ({ id: input.params.id, name: input.body.name })),
+			);
+		const app = new Hono();
+		await users.toHono(app);
+		const client = createClient<typeof users>({
+			baseUrl: "http://localhost",
+			fetch: (input, init) => Promise.resolve(app.request(input as string, init)),
+		});
+
+		const created = await client.post("/users", { body: { name: "Alice" } });
+		const updated = await client.put("/users/:id", { params: { id: "7" }, body: { name: "Bob" } });
+		const invalid = await client
+			.post("/users", { body: { name: 1 as unknown as string } })
+			.catch((e) => e);
+
+		expect(created).toMatchObject({ status: 201, body: { name: "Alice" } });
+		expect(updated).toMatchObject({ status: 200, body: { id: "7", name: "Bob" } });
+		expect(invalid).toBeInstanceOf(ValidationError);
+		expect(invalid.issues[0].path).toEqual(["name"]);
+	});
+});
@@ -13,6 +13,8 @@ describe("Configuration System", () => {
 		expect(config).toHaveProperty("logger");
 		expect(config.validateInput).toBe(true);
 		expect(typeof config.validateOutput).toBe("boolean");
+		expect(config.failFast).toBe(false);
+		expect(config.hooks).toEqual({});
 	});
 
 	it("should update global configuration with partial config", () => {
@@ -1,5 +1,16 @@
 import { describe, expect, it } from "vitest";
+import { AbortError, TimeoutError } from "../../src/errors/abort.js";
 import { HandlerError } from "../../src/errors/handler.js";
+import {
+	BadRequestError,
+	ConflictError,
+	ForbiddenError,
+	HttpError,
+	NotFoundError,
+	TooManyRequestsError,
+	UnauthorizedError,
+} from "../../src/errors/http.js";
+import { defaultErrorHandler } from "../../src/errors/response.js";
 import { ValidationError } from "../../src/errors/validation.js";
 
 describe("ValidationError", () => {
@@ -38,6 +49,24 @@ describe("ValidationError", () => {
 		expect(error.originalError).toBe(originalError);
 	});
 
+	it("should default issues to an empty array", () => {
+		const error = new ValidationError("Invalid input");
+		expect(error.issues).toEqual([]);
+	});
+
+	it("should create a ValidationError with issues", () => {
+		const issues = [
+			{
+				path: ["email"],
+				message: "Invalid email",
+				code: "invalid_string",
+				source: "body" as const,
+			},
+		];
+		const error = new ValidationError("Validation failed", "body.email", {}, undefined, issues);
+		expect(error.issues).toBe(issues);
+	});
+
 	it("should have proper stack trace", () => {
 		const error = new ValidationError("Test error");
 		expect(error.stack).toBeDefined();
@@ -84,3 +113,118 @@ describe("HandlerError", () => {
 		expect(typeof error.stack).toBe("string");
 	});
 });
+
+describe("HttpError", () => {
+	it("should extend HandlerError with the status code", () => {
+		const error = new NotFoundError("User 42 not found");
+		expect(error).toBeInstanceOf(HttpError);
+		expect(error).toBeInstanceOf(HandlerError);
+		expect(error.name).toBe("NotFoundError");
+		expect(error.statusCode).toBe(404);
+		expect(error.message).toBe("User 42 not found");
+	});
+
+	it("should use the standard status title for each subclass", () => {
+		expect(new BadRequestError().title).toBe("Bad Request");
+		expect(new UnauthorizedError().title).toBe("Unauthorized");
+		expect(new ForbiddenError().title).toBe("Forbidden");
+		expect(new ConflictError().title).toBe("Conflict");
+		expect(new TooManyRequestsError().title).toBe("Too Many Requests");
+	});
+
+	it("should default the message to the title", () => {
+		const error = new ForbiddenError();
+		expect(error.message).toBe("Forbidden");
+		expect(error.toProblem()).toEqual({ type: "about:blank", title: "Forbidden", status: 403 });
+	});
+
+	it("should serialize as RFC 9457 problem details", () => {
+		const error = new ConflictError("Email already registered", {
+			type: "https://example.com/problems/duplicate-email",
+			title: "Duplicate email",
+			instance: "/users",
+			extensions: { email: "a@example.com" },
+		});
+
+		expect(error.toProblem()).toEqual({
+			type: "https://example.com/problems/duplicate-email",
+			title: "Duplicate email",
+			status: 409,
+			detail: "Email already registered",
+			instance: "/users",
+			email: "a@example.com",
+		});
+		expect(JSON.parse(JSON.stringify(error))).toEqual(error.toProblem());
+	});
+
+	it("should not let extensions override standard members", () => {
+		const error = new HttpError(418, "Short and stout", { extensions: { status: 200 } });
+		expect(error.toProblem()).toEqual({
+			type: "about:blank",
+			title: "Error",
+			status: 418,
+			detail: "Short and stout",
+		});
+	});
+});
+
+describe("defaultErrorHandler", () => {
+	it("should map ValidationError to a 400 response with issues", () => {
+		const issues = [{ path: ["name"], message: "Required", code: "required" }];
+		const error = new ValidationError("Validation failed", "name", {}, undefined, issues);
+		expect(defaultErrorHandler(error)).toEqual({
+			status: 400,
+			body: { error: "ValidationError", message: "Validation failed", issues },
+		});
+	});
+
+	it("should map HandlerError to its status code", () => {
+		expect(defaultErrorHandler(new HandlerError("Gone", 410))).toEqual({
+			status: 410,
+			body: { error: "HandlerError", message: "Gone" },
+		});
+	});
+
+	it("should include HandlerError details when present", () => {
+		const error = new HandlerError("Conflict", 409, { id: "1" });
+		expect(defaultErrorHandler(error)?.body).toEqual({
+			error: "HandlerError",
+			message: "Conflict",
+			details: { id: "1" },
+		});
+	});
+
+	it("should map HttpError to an application/problem+json response", () => {
+		expect(defaultErrorHandler(new UnauthorizedError("Token expired"))).toEqual({
+			status: 401,
+			body: { type: "about:blank", title: "Unauthorized", status: 401, detail: "Token expired" },
+			headers: { "Content-Type": "application/problem+json" },
+		});
+	});
+
+	it("should set Retry-After for TooManyRequestsError", () => {
+		const response = defaultErrorHandler(new TooManyRequestsError(undefined, { retryAfter: 30 }));
+		expect(response?.headers).toEqual({
+			"Content-Type": "application/problem+json",
+			"Retry-After": "30",
+		});
+	});
+
+	it("should map TimeoutError to a 504 problem", () => {
+		expect(defaultErrorHandler(new TimeoutError(250))?.body).toEqual({
+			type: "about:blank",
+			title: "Gateway Timeout",
+			status: 504,
+			detail: "Handler timed out after 250ms",
+		});
+	});
+
+	it("should map AbortError to 499", () => {
+		expect(defaultErrorHandler(new AbortError())?.status).toBe(499);
+	});
+
+	it("should return undefined for other errors", () => {
+		expect(defaultErrorHandler(new Error("boom"))).toBeUndefined();
+		expect(defaultErrorHandler("boom")).toBeUndefined();
+	});
+});
@@ -1,6 +1,16 @@
-import { beforeEach, describe, expect, it } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { z } from "zod";
-import { configure, handler, resetConfig } from "../../src/index.js";
+import {
+	AbortError,
+	HandlerError,
+	TimeoutError,
+	ValidationError,
+	configure,
+	getRetryHistory,
+	handler,
+	resetConfig,
+	respond,
+} from "../../src/index.js";
 
 describe("Handler Factory", () => {
 	beforeEach(() => {
@@ -60,6 +70,32 @@ describe("Handler Builder Methods", () => {
 		});
 	});
 
+	it("input() should detect multi-input parts that are callable Standard Schemas", async () => {
+		const body = Object.assign((value: unknown) => value, {
+			"~standard": {
+				version: 1,
+				vendor: "test",
+				validate: (value: unknown) =>
+					typeof (value as { name?: unknown }).name === "string"
+						? { value }
+						: { issues: [{ message: "Expected string", path: ["name"] }] },
+			},
+		});
+		const h = handler()
+			.input({ body })
+			.handle(async (input) => input);
+
+		expect(h.expectsMultiInput()).toBe(true);
+		await expect(h.execute({ body: { name: "test" } })).resolves.toEqual({
+			body: { name: "test" },
+		});
+		const error = await h.execute({ body: { name: 1 } }).catch((e: unknown) => e);
+		expect(error).toBeInstanceOf(ValidationError);
+		expect(error.issues).toEqual([
+			{ path: ["name"], message: "Expected string", code: "invalid", source: "body" },
+		]);
+	});
+
 	it("input() with no schema should enable type-only mode", async () => {
 		const h = handler<{ req: unknown }>()
 			.input<{ id: string }>()
@@ -132,6 +168,123 @@ describe("Handler Execution", () => {
 		await expect(h.execute({ name: 123 })).rejects.toThrow();
 	});
 
+	it("execute() should attach normalized issues to input ValidationError", async () => {
+		const h = handler()
+			.input(z.object({ name: z.string() }))
+			.handle(async (input) => input);
+
+		const error = await h.execute({ name: 123 }).catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(ValidationError);
+		expect(error.field).toBe("name");
+		expect(error.issues).toEqual([
+			{ path: ["name"], message: "Expected string, received number", code: "invalid_type" },
+		]);
+	});
+
+	it("execute() should tag multi-input issues with their source part", async () => {
+		const h = handler()
+			.input({
+				body: z.object({ name: z.string() }),
+				query: z.object({ page: z.string() }),
+			})
+			.handle(async (input) => input);
+
+		const error = await h
+			.execute({ body: { name: "test" }, query: { page: 1 } })
+			.catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(ValidationError);
+		expect(error.field).toBe("query.page");
+		expect(error.issues).toEqual([
+			{
+				path: ["page"],
+				message: "Expected string, received number",
+				code: "invalid_type",
+				source: "query",
+			},
+		]);
+	});
+
+	it("execute() should report failures from every multi-input part", async () => {
+		const h = handler()
+			.input({
+				body: z.object({ name: z.string() }),
+				query: z.object({ page: z.string() }),
+				params: z.object({ id: z.string() }),
+			})
+			.handle(async (input) => input);
+
+		const error = await h
+			.execute({ body: { name: 1 }, query: { page: 1 }, params: { id: "1" } })
+			.catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(ValidationError);
+		expect(error.message).toBe("Validation failed");
+		expect(error.field).toBe("body.name");
+		expect(error.originalError).toHaveLength(2);
+		expect(error.issues.map((issue: { source: string }) => issue.source)).toEqual([
+			"body",
+			"query",
+		]);
+	});
+
+	it("execute() should stop at the first failing part when failFast is enabled", async () => {
+		const queryCheck = vi.fn(() => true);
+		const h = handler({ failFast: true })
+			.input({
+				body: z.object({ name: z.string() }),
+				query: z.unknown().refine(queryCheck),
+			})
+			.handle(async (input) => input);
+
+		const error = await h
+			.execute({ body: { name: 1 }, query: { page: 1 } })
+			.catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(ValidationError);
+		expect(error.issues).toHaveLength(1);
+		expect(error.issues[0].source).toBe("body");
+		expect(queryCheck).not.toHaveBeenCalled();
+	});
+
+	it("execute() should use formatIssues from a custom adapter", async () => {
+		const h = handler()
+			.input(
+				{ custom: true },
+				{
+					parse: () => {
+						throw new Error("custom failure");
+					},
+					formatIssues: () => [{ path: ["id"], message: "Required", code: "required" }],
+				},
+			)
+			.handle(async (input) => input);
+
+		const error = await h.execute({}).catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(ValidationError);
+		expect(error.field).toBe("id");
+		expect(error.issues).toEqual([{ path: ["id"], message: "Required", code: "required" }]);
+	});
+
+	it("execute() should fall back to a generic issue for unknown adapter errors", async () => {
+		const h = handler()
+			.input(
+				{ custom: true },
+				{
+					parse: () => {
+						throw new Error("custom failure");
+					},
+				},
+			)
+			.handle(async (input) => input);
+
+		const error = await h.execute({}).catch((e: unknown) => e);
+
+		expect(error.issues).toEqual([{ path: [], message: "custom failure", code: "invalid" }]);
+	});
+
 	it("execute() should skip input validation when disabled", async () => {
 		configure({ validateInput: false });
 		const schema = z.object({ name: z.string() });
@@ -302,6 +455,33 @@ describe("Handler Execution", () => {
 		expect(typeof honoHandler).toBe("function");
 	});
 
+	it("koa() convenience method should return koa handler", async () => {
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.handle(async (input) => input);
+
+		const koaHandler = await h.koa();
+		expect(typeof koaHandler).toBe("function");
+	});
+
+	it("nodeHttp() convenience method should return node http listener", async () => {
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.handle(async (input) => input);
+
+		const listener = await h.nodeHttp();
+		expect(typeof listener).toBe("function");
+	});
+
+	it("fetch() convenience method should return fetch handler", async () => {
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.handle(async (input) => input);
+
+		const fetchHandler = await h.fetch();
+		expect(typeof fetchHandler).toBe("function");
+	});
+
 	it("raw() convenience method should return raw handler", async () => {
 		const h = handler()
 			.input(z.object({ value: z.number() }))
@@ -486,3 +666,1133 @@ describe("Handler Transform Stage", () => {
 		});
 	});
 });
+
+describe("Handler Lifecycle Hooks", () => {
+	beforeEach(() => {
+		resetConfig();
+	});
+
+	it("hooks should run around the pipeline stages in order", async () => {
+		const order: string[] = [];
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.onRequest(() => {
+				order.push("onRequest");
+			})
+			.use(async () => {
+				order.push("middleware");
+				return { user: "alice" };
+			})
+			.beforeHandle(() => {
+				order.push("beforeHandle");
+			})
+			.handle(async (input) => {
+				order.push("handle");
+				return { result: input.value };
+			})
+			.afterHandle(() => {
+				order.push("afterHandle");
+			})
+			.transform((output) => {
+				order.push("transform");
+				return output;
+			})
+			.onResponse(() => {
+				order.push("onResponse");
+			});
+
+		await h.execute({ value: 1 });
+		expect(order).toEqual([
+			"onRequest",
+			"middleware",
+			"beforeHandle",
+			"handle",
+			"afterHandle",
+			"transform",
+			"onResponse",
+		]);
+	});
+
+	it("onRequest should receive raw input and run before validation", async () => {
+		const onRequest = vi.fn(() => {
+			throw new Error("Rejected");
+		});
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.onRequest(onRequest)
+			.handle(async (input) => input);
+
+		await expect(h.execute({ value: "raw" }, { requestId: "1" })).rejects.toThrow("Rejected");
+		expect(onRequest).toHaveBeenCalledWith({ value: "raw" }, { requestId: "1" });
+	});
+
+	it("beforeHandle should receive validated input and middleware context", async () => {
+		const beforeHandle = vi.fn();
+		const h = handler()
+			.input(z.object({ value: z.coerce.number() }))
+			.use(async () => ({ user: "alice" }))
+			.beforeHandle(beforeHandle)
+			.handle(async (input) => input);
+
+		await h.execute({ value: "5" });
+		expect(beforeHandle).toHaveBeenCalledWith({ value: 5 }, { user: "alice" });
+	});
+
+	it("afterHandle should replace the output when it returns a value", async () => {
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.handle(async (input) => ({ result: input.value }))
+			.afterHandle((_input, _ctx, output) => ({ result: output.result * 10 }))
+			.afterHandle(() => undefined);
+
+		const result = await h.execute({ value: 2 });
+		expect(result).toEqual({ result: 20 });
+	});
+
+	it("onResponse should receive the output on success", async () => {
+		const onResponse = vi.fn();
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.handle(async (input) => ({ result: input.value }))
+			.onResponse(onResponse);
+
+		await h.execute({ value: 3 });
+		expect(onResponse).toHaveBeenCalledWith({ value: 3 }, {}, { output: { result: 3 } });
+	});
+
+	it("onResponse should receive the error on failure", async () => {
+		const onResponse = vi.fn();
+		const failure = new Error("Handler error");
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.handle(async () => {
+				throw failure;
+			})
+			.onResponse(onResponse);
+
+		await expect(h.execute({ value: 3 })).rejects.toThrow("Handler error");
+		expect(onResponse).toHaveBeenCalledWith({ value: 3 }, {}, { error: failure });
+	});
+
+	it("onResponse errors should be logged without masking the result", async () => {
+		const logger = { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() };
+		const h = handler({ logger })
+			.input(z.object({ value: z.number() }))
+			.handle(async (input) => input)
+			.onResponse(() => {
+				throw new Error("Audit failed");
+			});
+
+		await expect(h.execute({ value: 1 })).resolves.toEqual({ value: 1 });
+		expect(logger.error).toHaveBeenCalledWith("onResponse hook failed", expect.any(Error));
+	});
+
+	it("global hooks from configure() should run before handler hooks", async () => {
+		const order: string[] = [];
+		configure({
+			hooks: {
+				beforeHandle: () => {
+					order.push("global");
+				},
+			},
+		});
+
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.beforeHandle(() => {
+				order.push("handler");
+			})
+			.handle(async (input) => input);
+
+		await h.execute({ value: 1 });
+		expect(order).toEqual(["global", "handler"]);
+	});
+
+	it("hook registration should not mutate the original handler", async () => {
+		const onRequest = vi.fn();
+		const base = handler()
+			.input(z.object({ value: z.number() }))
+			.handle(async (input) => input);
+		base.onRequest(onRequest);
+
+		await base.execute({ value: 1 });
+		expect(onRequest).not.toHaveBeenCalled();
+	});
+});
+
+describe("Handler Around Middleware", () => {
+	beforeEach(() => {
+		resetConfig();
+	});
+
+	it("around() should run code before and after the rest of the pipeline", async () => {
+		const order: string[] = [];
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.around(async (_input, _ctx, next) => {
+				order.push("before");
+				const output = await next();
+				order.push("after");
+				return output;
+			})
+			.handle(async (input) => {
+				order.push("handle");
+				return { result: input.value };
+			});
+
+		const result = await h.execute({ value: 1 });
+		expect(result).toEqual({ result: 1 });
+		expect(order).toEqual(["before", "handle", "after"]);
+	});
+
+	it("around() should merge the context passed to next() into downstream context", async () => {
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.use(async () => ({ user: "alice" }))
+			.around<{ tx: string }>(async (_input, ctx, next) => next({ tx: `tx-${ctx.user}` }))
+			.use(async (_input, ctx) => ({ audit: `${ctx.user}:${ctx.tx}` }))
+			.handle(async (_input, ctx) => ctx);
+
+		const result = await h.execute({ value: 1 });
+		expect(result).toEqual({ user: "alice", tx: "tx-alice", audit: "alice:tx-alice" });
+	});
+
+	it("around() should see handler errors and run cleanup", async () => {
+		const events: string[] = [];
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.around(async (_input, _ctx, next) => {
+				events.push("begin");
+				try {
+					const output = await next();
+					events.push("commit");
+					return output;
+				} catch (error) {
+					events.push(`rollback:${(error as Error).message}`);
+					throw error;
+				} finally {
+					events.push("release");
+				}
+			})
+			.handle(async () => {
+				throw new Error("Handler error");
+			});
+
+		await expect(h.execute({ value: 1 })).rejects.toThrow("Handler error");
+		expect(events).toEqual(["begin", "rollback:Handler error", "release"]);
+	});
+
+	it("around() should be able to change the output", async () => {
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.around(async (_input, _ctx, next) => {
+				const output = (await next()) as { result: number };
+				return { ...output, wrapped: true };
+			})
+			.handle(async (input) => ({ result: input.value }));
+
+		const result = await h.execute({ value: 2 });
+		expect(result).toEqual({ result: 2, wrapped: true });
+	});
+
+	it("around() output should still pass output validation", async () => {
+		configure({ validateOutput: true });
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.around(async () => ({ result: "not a number" }))
+			.handle(async (input) => ({ result: input.value }))
+			.output(z.object({ result: z.number() }));
+
+		await expect(h.execute({ value: 2 })).rejects.toThrow(ValidationError);
+	});
+
+	it("around() should reject when next() is called more than once", async () => {
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.around(async (_input, _ctx, next) => {
+				await next();
+				return next();
+			})
+			.handle(async (input) => input);
+
+		await expect(h.execute({ value: 1 })).rejects.toThrow("next() called multiple times");
+	});
+
+	it("around() wrappers should nest in registration order", async () => {
+		const order: string[] = [];
+		const wrap =
+			(name: string) => async (_input: unknown, _ctx: unknown, next: () => Promise<unknown>) => {
+				order.push(`${name}:in`);
+				const output = await next();
+				order.push(`${name}:out`);
+				return output;
+			};
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.around(wrap("outer"))
+			.around(wrap("inner"))
+			.handle(async (input) => input);
+
+		await h.execute({ value: 1 });
+		expect(order).toEqual(["outer:in", "inner:in", "inner:out", "outer:out"]);
+	});
+});
+
+describe("Handler Early Responses", () => {
+	beforeEach(() => {
+		resetConfig();
+	});
+
+	it("respond() from middleware should skip remaining middleware and the handler", async () => {
+		const later = vi.fn(async () => ({}));
+		const handle = vi.fn(async () => ({ result: "handled" }));
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.use(async () => respond(401, { error: "Unauthorized" }))
+			.use(later)
+			.handle(handle);
+
+		const result = await h.execute({ value: 1 });
+		expect(result).toEqual({ status: 401, body: { error: "Unauthorized" } });
+		expect(later).not.toHaveBeenCalled();
+		expect(handle).not.toHaveBeenCalled();
+	});
+
+	it("respond() should include headers when provided", async () => {
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.use(async () => respond(200, { cached: true }, { headers: { "X-Cache": "HIT" } }))
+			.handle(async () => ({ cached: false }));
+
+		const result = await h.execute({ value: 1 });
+		expect(result).toEqual({ status: 200, body: { cached: true }, headers: { "X-Cache": "HIT" } });
+	});
+
+	it("early responses should pass through transform and output validation", async () => {
+		configure({ validateOutput: true });
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.use(async () => respond(200, { value: "cached" }))
+			.handle(async (input) => ({ status: 200, body: input }))
+			.transform((output) => ({ ...output, body: { ...output.body, transformed: true } }))
+			.output(
+				z.object({ status: z.number(), body: z.object({ value: z.number() }).passthrough() }),
+			);
+
+		const error = await h.execute({ value: 1 }).catch((e: unknown) => e);
+		expect(error).toBeInstanceOf(ValidationError);
+		expect(error.issues[0].path).toEqual(["body", "value"]);
+	});
+
+	it("early responses marked with bypass should skip transform and output validation", async () => {
+		configure({ validateOutput: true });
+		const transform = vi.fn((output) => output);
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.use(async () => respond(429, { error: "Slow down" }, { bypass: true }))
+			.handle(async (input) => input)
+			.transform(transform)
+			.output(z.object({ value: z.number() }));
+
+		const result = await h.execute({ value: 1 });
+		expect(result).toEqual({ status: 429, body: { error: "Slow down" } });
+		expect(transform).not.toHaveBeenCalled();
+	});
+
+	it("early responses should skip handler hooks but still reach onResponse", async () => {
+		const beforeHandle = vi.fn();
+		const onResponse = vi.fn();
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.use(async () => respond(204, null))
+			.beforeHandle(beforeHandle)
+			.handle(async (input) => input)
+			.onResponse(onResponse);
+
+		await h.execute({ value: 1 });
+		expect(beforeHandle).not.toHaveBeenCalled();
+		expect(onResponse).toHaveBeenCalledWith(
+			{ value: 1 },
+			{},
+			{ output: { status: 204, body: null } },
+		);
+	});
+
+	it("early responses should let enclosing around() middleware observe them", async () => {
+		const seen = vi.fn();
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.around(async (_input, _ctx, next) => {
+				const output = await next();
+				seen(output);
+				return output;
+			})
+			.use(async () => respond(403, { error: "Forbidden" }))
+			.handle(async (input) => input);
+
+		await h.execute({ value: 1 });
+		expect(seen).toHaveBeenCalledWith({ status: 403, body: { error: "Forbidden" } });
+	});
+});
+
+describe("Handler Before Middleware", () => {
+	beforeEach(() => {
+		resetConfig();
+	});
+
+	it("before() should run on raw input before validation", async () => {
+		const before = vi.fn(() => {
+			throw new HandlerError("Unauthorized", 401);
+		});
+		const parse = vi.fn();
+		const h = handler()
+			.input({ custom: true }, { parse })
+			.before(before)
+			.handle(async (input) => input);
+
+		await expect(h.execute({ value: "raw" }, { token: undefined })).rejects.toThrow("Unauthorized");
+		expect(before).toHaveBeenCalledWith({ value: "raw" }, { token: undefined });
+		expect(parse).not.toHaveBeenCalled();
+	});
+
+	it("before() should replace the input that gets validated", async () => {
+		const h = handler()
+			.input({
+				headers: z.object({ "x-api-key": z.string() }),
+			})
+			.before((input) => {
+				const { headers } = input as { headers: Record<string, string> };
+				return {
+					input: {
+						headers: Object.fromEntries(
+							Object.entries(headers).map(([key, value]) => [key.toLowerCase(), value]),
+						),
+					},
+				};
+			})
+			.handle(async (input) => input.headers["x-api-key"]);
+
+		const result = await h.execute({ headers: { "X-API-Key": "secret" } });
+		expect(result).toBe("secret");
+	});
+
+	it("before() should extend the context for later stages", async () => {
+		const h = handler<{ tenantHeader: string }>()
+			.input(z.object({ value: z.number() }))
+			.before((_input, ctx) => ({ context: { tenant: ctx.tenantHeader.toUpperCase() } }))
+			.use(async (_input, ctx) => ({ scope: `${ctx.tenant}:read` }))
+			.handle(async (_input, ctx) => ({ tenant: ctx.tenant, scope: ctx.scope }));
+
+		const result = await h.execute({ value: 1 }, { tenantHeader: "acme" });
+		expect(result).toEqual({ tenant: "ACME", scope: "ACME:read" });
+	});
+
+	it("before() should allow returning nothing", async () => {
+		const seen = vi.fn();
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.before(async (input) => {
+				seen(input);
+			})
+			.handle(async (input) => input);
+
+		await expect(h.execute({ value: 1 })).resolves.toEqual({ value: 1 });
+		expect(seen).toHaveBeenCalledWith({ value: 1 });
+	});
+
+	it("before() should short-circuit with respond() without validating", async () => {
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.before(() => respond(401, { error: "Unauthorized" }))
+			.handle(async (input) => input);
+
+		const result = await h.execute({ value: "invalid" });
+		expect(result).toEqual({ status: 401, body: { error: "Unauthorized" } });
+	});
+
+	it("before() should run after onRequest hooks", async () => {
+		const order: string[] = [];
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.onRequest(() => {
+				order.push("onRequest");
+			})
+			.before(() => {
+				order.push("before");
+			})
+			.use(async () => {
+				order.push("use");
+				return {};
+			})
+			.handle(async (input) => input);
+
+		await h.execute({ value: 1 });
+		expect(order).toEqual(["onRequest", "before", "use"]);
+	});
+});
+
+describe("Handler Timeout and Cancellation", () => {
+	it("should reject with TimeoutError when the handler exceeds its timeout", async () => {
+		const h = handler()
+			.timeout(10)
+			.handle(() => new Promise(() => {}));
+
+		const error = await h.execute({}).catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(TimeoutError);
+		expect(error.timeout).toBe(10);
+		expect(error.statusCode).toBe(504);
+	});
+
+	it("should resolve normally when the handler finishes in time", async () => {
+		const h = handler()
+			.timeout(1000)
+			.handle(async () => ({ ok: true }));
+
+		await expect(h.execute({})).resolves.toEqual({ ok: true });
+	});
+
+	it("should expose the abort signal as ctx.signal to middleware and handlers", async () => {
+		const seen: AbortSignal[] = [];
+		const h = handler()
+			.timeout(10)
+			.use(async (_req, ctx) => {
+				seen.push(ctx.signal);
+				return {};
+			})
+			.handle(
+				(_input, ctx) =>
+					new Promise((_resolve, reject) => {
+						seen.push(ctx.signal);
+						ctx.signal.addEventListener("abort", () => reject(ctx.signal.reason));
+					}),
+			);
+
+		await expect(h.execute({})).rejects.toThrow(TimeoutError);
+		expect(seen).toHaveLength(2);
+		expect(seen[1]?.aborted).toBe(true);
+	});
+
+	it("should reject with AbortError when the external signal aborts", async () => {
+		const controller = new AbortController();
+		const h = handler().handle(() => new Promise(() => {}));
+
+		const pending = h.execute({}, {}, { signal: controller.signal });
+		controller.abort("client gone");
+		const error = await pending.catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(AbortError);
+		expect(error.reason).toBe("client gone");
+	});
+
+	it("should not run the handler when the signal is already aborted", async () => {
+		const handlerFn = vi.fn();
+		const h = handler().handle(handlerFn);
+
+		await expect(h.execute({}, {}, { signal: AbortSignal.abort() })).rejects.toThrow(AbortError);
+		await Promise.resolve();
+		expect(handlerFn).not.toHaveBeenCalled();
+	});
+
+	it("should report the timeout to onResponse hooks", async () => {
+		const onResponse = vi.fn();
+		const h = handler()
+			.timeout(10)
+			.onResponse(onResponse)
+			.handle(() => new Promise(() => {}));
+
+		await h.execute({}).catch(() => {});
+
+		expect(onResponse.mock.calls[0]?.[2].error).toBeInstanceOf(TimeoutError);
+	});
+
+	it("should not add a signal to the context without a timeout or signal", async () => {
+		const h = handler().handle(async (_input, ctx) => ctx);
+		await expect(h.execute({}, {})).resolves.toEqual({});
+	});
+
+	it("should reject a non-positive timeout", () => {
+		expect(() => handler().timeout(0)).toThrow("Timeout must be a positive number");
+	});
+});
+
+describe("Handler Retry", () => {
+	it("should retry the handler until it succeeds", async () => {
+		const handlerFn = vi
+			.fn()
+			.mockRejectedValueOnce(new Error("flaky"))
+			.mockResolvedValueOnce({ ok: true });
+		const h = handler().retry({ attempts: 3, delay: 0 }).handle(handlerFn);
+
+		await expect(h.execute({})).resolves.toEqual({ ok: true });
+		expect(handlerFn).toHaveBeenCalledTimes(2);
+	});
+
+	it("should expose the attempt number in context", async () => {
+		const attempts: number[] = [];
+		const h = handler()
+			.retry({ attempts: 3, delay: 0 })
+			.handle(async (_input, ctx) => {
+				attempts.push(ctx.attempt);
+				if (ctx.attempt < 3) {
+					throw new Error("flaky");
+				}
+				return { attempt: ctx.attempt };
+			});
+
+		await expect(h.execute({})).resolves.toEqual({ attempt: 3 });
+		expect(attempts).toEqual([1, 2, 3]);
+	});
+
+	it("should attach the attempt history to the final error", async () => {
+		const errors = [new Error("first"), new Error("second")];
+		const h = handler()
+			.retry({ attempts: 2, delay: 5 })
+			.handle(async (_input, ctx) => {
+				throw errors[ctx.attempt - 1];
+			});
+
+		const error = await h.execute({}).catch((e: unknown) => e);
+
+		expect(error).toBe(errors[1]);
+		expect(getRetryHistory(error)).toEqual([
+			{ attempt: 1, error: errors[0], delay: 5 },
+			{ attempt: 2, error: errors[1] },
+		]);
+	});
+
+	it("should stop when retryOn returns false", async () => {
+		const retryOn = vi.fn(() => false);
+		const handlerFn = vi.fn().mockRejectedValue(new HandlerError("Conflict", 409));
+		const h = handler().retry({ attempts: 5, delay: 0, retryOn }).handle(handlerFn);
+
+		await expect(h.execute({})).rejects.toThrow("Conflict");
+		expect(handlerFn).toHaveBeenCalledTimes(1);
+		expect(retryOn).toHaveBeenCalledWith(expect.any(HandlerError), 1);
+	});
+
+	it("should retry transform failures", async () => {
+		const transformFn = vi
+			.fn()
+			.mockRejectedValueOnce(new Error("flaky"))
+			.mockResolvedValueOnce({ transformed: true });
+		const h = handler()
+			.retry({ attempts: 2, delay: 0 })
+			.handle(async () => ({ ok: true }))
+			.transform(transformFn);
+
+		await expect(h.execute({})).resolves.toEqual({ transformed: true });
+		expect(transformFn).toHaveBeenCalledTimes(2);
+	});
+
+	it("should never retry input validation failures", async () => {
+		const handlerFn = vi.fn();
+		const h = handler()
+			.input(z.object({ name: z.string() }))
+			.retry({ attempts: 3, delay: 0 })
+			.handle(handlerFn);
+
+		const error = await h.execute({ name: 1 }).catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(ValidationError);
+		expect(getRetryHistory(error)).toBeUndefined();
+		expect(handlerFn).not.toHaveBeenCalled();
+	});
+
+	it("should not rerun middleware between attempts", async () => {
+		const middleware = vi.fn(async () => ({ db: "conn" }));
+		const handlerFn = vi
+			.fn()
+			.mockRejectedValueOnce(new Error("flaky"))
+			.mockResolvedValueOnce({ ok: true });
+		const h = handler().use(middleware).retry({ attempts: 2, delay: 0 }).handle(handlerFn);
+
+		await h.execute({});
+
+		expect(middleware).toHaveBeenCalledTimes(1);
+	});
+
+	it("should wait with exponential backoff between attempts", async () => {
+		vi.useFakeTimers();
+		try {
+			const handlerFn = vi.fn().mockRejectedValue(new Error("down"));
+			const h = handler()
+				.retry({ attempts: 3, backoff: "exponential", delay: 100 })
+				.handle(handlerFn);
+
+			const pending = h.execute({}).catch((e: unknown) => e);
+			await vi.advanceTimersByTimeAsync(99);
+			expect(handlerFn).toHaveBeenCalledTimes(1);
+			await vi.advanceTimersByTimeAsync(1);
+			expect(handlerFn).toHaveBeenCalledTimes(2);
+			await vi.advanceTimersByTimeAsync(199);
+			expect(handlerFn).toHaveBeenCalledTimes(2);
+			await vi.advanceTimersByTimeAsync(1);
+			expect(handlerFn).toHaveBeenCalledTimes(3);
+
+			expect(getRetryHistory(await pending)?.map((entry) => entry.delay)).toEqual([
+				100,
+				200,
+				undefined,
+			]);
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	it("should stop retrying once the execution times out", async () => {
+		const handlerFn = vi.fn().mockRejectedValue(new Error("down"));
+		const h = handler().timeout(20).retry({ attempts: 10, delay: 50 }).handle(handlerFn);
+
+		await expect(h.execute({})).rejects.toThrow("timed out");
+		await new Promise((resolve) => setTimeout(resolve, 60));
+		expect(handlerFn).toHaveBeenCalledTimes(1);
+	});
+
+	it("should reject invalid retry options", () => {
+		expect(() => handler().retry({ attempts: 0 })).toThrow("positive integer");
+		expect(() => handler().retry({ attempts: 2, delay: -1 })).toThrow("non-negative");
+	});
+});
+
+describe("Handler safeExecute", () => {
+	it("should resolve to ok with the value on success", async () => {
+		const h = handler()
+			.input(z.object({ name: z.string() }))
+			.handle(async (input) => ({ message: `Hello ${input.name}` }));
+
+		await expect(h.safeExecute({ name: "Alice" })).resolves.toEqual({
+			ok: true,
+			value: { message: "Hello Alice" },
+		});
+	});
+
+	it("should report input validation failures", async () => {
+		const h = handler()
+			.input(z.object({ name: z.string() }))
+			.handle(async () => ({}));
+
+		const result = await h.safeExecute({ name: 1 });
+
+		expect(result).toMatchObject({ ok: false, stage: "input" });
+		expect(!result.ok && result.error).toBeInstanceOf(ValidationError);
+	});
+
+	it("should report middleware failures", async () => {
+		const boom = new Error("no session");
+		const h = handler()
+			.use(async () => {
+				throw boom;
+			})
+			.handle(async () => ({}));
+
+		await expect(h.safeExecute({})).resolves.toEqual({
+			ok: false,
+			error: boom,
+			stage: "middleware",
+		});
+	});
+
+	it("should report before middleware and onRequest failures as middleware", async () => {
+		const h = handler()
+			.before(() => {
+				throw new Error("blocked");
+			})
+			.handle(async () => ({}));
+
+		await expect(h.safeExecute({})).resolves.toMatchObject({ ok: false, stage: "middleware" });
+	});
+
+	it("should report handler and hook failures", async () => {
+		const h = handler()
+			.beforeHandle(() => {
+				throw new HandlerError("Forbidden", 403);
+			})
+			.handle(async () => ({}));
+
+		await expect(h.safeExecute({})).resolves.toMatchObject({ ok: false, stage: "handler" });
+	});
+
+	it("should report transform failures", async () => {
+		const h = handler()
+			.handle(async () => ({ ok: true }))
+			.transform(() => {
+				throw new Error("bad shape");
+			});
+
+		await expect(h.safeExecute({})).resolves.toMatchObject({ ok: false, stage: "transform" });
+	});
+
+	it("should report output validation failures", async () => {
+		const h = handler()
+			.output(z.object({ id: z.string() }))
+			.handle(async () => ({ id: 1 }) as unknown as { id: string });
+
+		await expect(h.safeExecute({})).resolves.toMatchObject({ ok: false, stage: "output" });
+	});
+
+	it("should report around middleware failures after next() as middleware", async () => {
+		const h = handler()
+			.around(async (_input, _ctx, next) => {
+				await next();
+				throw new Error("after");
+			})
+			.handle(async () => ({}));
+
+		await expect(h.safeExecute({})).resolves.toMatchObject({ ok: false, stage: "middleware" });
+	});
+
+	it("should report errors propagating through around middleware with their own stage", async () => {
+		const h = handler()
+			.around(async (_input, _ctx, next) => next())
+			.handle(async () => {
+				throw new Error("handler");
+			});
+
+		await expect(h.safeExecute({})).resolves.toMatchObject({ ok: false, stage: "handler" });
+	});
+
+	it("should still run onResponse hooks", async () => {
+		const onResponse = vi.fn();
+		const h = handler()
+			.onResponse(onResponse)
+			.handle(async () => {
+				throw new Error("boom");
+			});
+
+		await h.safeExecute({});
+
+		expect(onResponse).toHaveBeenCalledOnce();
+	});
+
+	it("should report each stage entered to onStage", async () => {
+		const onStage = vi.fn();
+		const h = handler()
+			.before(() => undefined)
+			.input(z.object({ name: z.string() }))
+			.around(async (_input, _ctx, next) => next())
+			.handle(async (input) => ({ name: input.name }))
+			.transform((output) => output)
+			.output(z.object({ name: z.string() }));
+
+		await h.execute({ name: "Alice" }, {}, { onStage });
+
+		expect(onStage.mock.calls.map(([stage]) => stage)).toEqual([
+			"middleware",
+			"input",
+			"middleware",
+			"handler",
+			"transform",
+			"middleware",
+			"output",
+		]);
+	});
+});
+
+describe("Handler executeMany", () => {
+	it("should return ordered per-item results", async () => {
+		const h = handler()
+			.input(z.object({ value: z.number() }))
+			.handle(async (input) => ({ doubled: input.value * 2 }));
+
+		const results = await h.executeMany([{ value: 1 }, { value: "x" }, { value: 3 }]);
+
+		expect(results).toHaveLength(3);
+		expect(results[0]).toEqual({ ok: true, value: { doubled: 2 } });
+		expect(results[1]).toMatchObject({ ok: false, stage: "input" });
+		expect(results[2]).toEqual({ ok: true, value: { doubled: 6 } });
+	});
+
+	it("should keep input order when items finish out of order", async () => {
+		const h = handler<object>()
+			.input<{ delay: number }>()
+			.handle(async (input) => {
+				await new Promise((resolve) => setTimeout(resolve, input.delay));
+				return input.delay;
+			});
+
+		const results = await h.executeMany([{ delay: 20 }, { delay: 0 }, { delay: 10 }], {
+			concurrency: 3,
+		});
+
+		expect(results.map((result) => result.ok && result.value)).toEqual([20, 0, 10]);
+	});
+
+	it("should never run more items than the concurrency limit", async () => {
+		let active = 0;
+		let peak = 0;
+		const h = handler().handle(async () => {
+			active++;
+			peak = Math.max(peak, active);
+			await new Promise((resolve) => setTimeout(resolve, 5));
+			active--;
+			return {};
+		});
+
+		await h.executeMany([1, 2, 3, 4, 5], { concurrency: 2 });
+
+		expect(peak).toBe(2);
+	});
+
+	it("should skip remaining items after a failure with stopOnError", async () => {
+		const handlerFn = vi.fn(async (input: number) => {
+			if (input === 2) {
+				throw new Error("bad row");
+			}
+			return input;
+		});
+		const h = handler().input<number>().handle(handlerFn);
+
+		const results = await h.executeMany([1, 2, 3, 4], { stopOnError: true });
+
+		expect(results).toEqual([
+			{ ok: true, value: 1 },
+			{ ok: false, error: expect.any(Error), stage: "handler" },
+			{ ok: false, skipped: true },
+			{ ok: false, skipped: true },
+		]);
+		expect(handlerFn).toHaveBeenCalledTimes(2);
+	});
+
+	it("should report progress after each item", async () => {
+		const onProgress = vi.fn();
+		const h = handler().handle(async () => "done");
+
+		await h.executeMany(["a", "b"], { onProgress });
+
+		expect(onProgress).toHaveBeenCalledTimes(2);
+		expect(onProgress).toHaveBeenLastCalledWith({
+			index: 1,
+			result: { ok: true, value: "done" },
+			completed: 2,
+			total: 2,
+		});
+	});
+
+	it("should pass the shared context to every item", async () => {
+		const h = handler<{ tenant: string }>().handle(async (_input, ctx) => ctx.tenant);
+
+		const results = await h.executeMany([1, 2], { context: { tenant: "acme" } });
+
+		expect(results).toEqual([
+			{ ok: true, value: "acme" },
+			{ ok: true, value: "acme" },
+		]);
+	});
+
+	it("should run batch-scoped middleware once per batch", async () => {
+		const connect = vi.fn(async () => ({ db: { id: "conn" } }));
+		const perItem = vi.fn(async () => ({ requestId: "r" }));
+		const h = handler()
+			.use(connect, { scope: "batch" })
+			.use(perItem)
+			.handle(async (_input, ctx) => `${ctx.db.id}:${ctx.requestId}`);
+
+		const inputs = [1, 2, 3];
+		const results = await h.executeMany(inputs, { concurrency: 2 });
+
+		expect(connect).toHaveBeenCalledOnce();
+		expect(connect).toHaveBeenCalledWith(inputs, {});
+		expect(perItem).toHaveBeenCalledTimes(3);
+		expect(results.every((result) => result.ok && result.value === "conn:r")).toBe(true);
+	});
+
+	it("should still run batch-scoped middleware in execute()", async () => {
+		const connect = vi.fn(async () => ({ db: "conn" }));
+		const h = handler()
+			.use(connect, { scope: "batch" })
+			.handle(async (_input, ctx) => ctx.db);
+
+		await expect(h.execute({})).resolves.toBe("conn");
+		expect(connect).toHaveBeenCalledOnce();
+	});
+
+	it("should fail every item when batch-scoped middleware throws", async () => {
+		const boom = new Error("no connection");
+		const handlerFn = vi.fn();
+		const h = handler()
+			.use(
+				async () => {
+					throw boom;
+				},
+				{ scope: "batch" },
+			)
+			.handle(handlerFn);
+
+		const results = await h.executeMany([1, 2]);
+
+		expect(results).toEqual([
+			{ ok: false, error: boom, stage: "middleware" },
+			{ ok: false, error: boom, stage: "middleware" },
+		]);
+		expect(handlerFn).not.toHaveBeenCalled();
+	});
+
+	it("should reject an invalid concurrency", async () => {
+		const h = handler().handle(async () => ({}));
+		await expect(h.executeMany([1], { concurrency: 0 })).rejects.toThrow("positive integer");
+	});
+});
+
+describe("Handler Streaming Outputs", () => {
+	async function* chunks(values: unknown[]) {
+		for (const value of values) {
+			yield value;
+		}
+	}
+
+	async function collect(source: unknown): Promise<unknown[]> {
+		const values: unknown[] = [];
+		for await (const value of source as AsyncIterable<unknown>) {
+			values.push(value);
+		}
+		return values;
+	}
+
+	it("should return streaming outputs without validating them as a whole", async () => {
+		const h = handler()
+			.output(z.object({ progress: z.number() }))
+			.handle(() => chunks([{ progress: 1 }]) as never);
+
+		const output = await h.execute({});
+
+		expect(await collect(output)).toEqual([{ progress: 1 }]);
+	});
+
+	it("should validate each chunk with validateChunks", async () => {
+		const h = handler()
+			.output(z.object({ progress: z.number() }))
+			.stream({ format: "sse", validateChunks: true })
+			.handle(() => chunks([{ progress: 1 }, { progress: "x" }]) as never);
+
+		const output = await h.execute({});
+		const values: unknown[] = [];
+		const error = await (async () => {
+			for await (const value of output as AsyncIterable<unknown>) {
+				values.push(value);
+			}
+		})().catch((e: unknown) => e);
+
+		expect(values).toEqual([{ progress: 1 }]);
+		expect(error).toBeInstanceOf(ValidationError);
+	});
+
+	it("should validate chunks read from a ReadableStream", async () => {
+		const h = handler()
+			.output(z.object({ n: z.number() }))
+			.stream({ format: "ndjson", validateChunks: true })
+			.handle(
+				() =>
+					new ReadableStream({
+						start(controller) {
+							controller.enqueue({ n: 1, extra: true });
+							controller.close();
+						},
+					}) as never,
+			);
+
+		expect(await collect(await h.execute({}))).toEqual([{ n: 1 }]);
+	});
+
+	it("should expose the stream format to adapters", () => {
+		expect(handler().streamFormat()).toBe("ndjson");
+		expect(handler().stream({ format: "sse" }).streamFormat()).toBe("sse");
+	});
+});
+
+describe("Handler Metadata and describe()", () => {
+	afterEach(() => {
+		resetConfig();
+	});
+
+	it("should describe an empty handler", () => {
+		expect(handler().describe()).toEqual({
+			meta: {},
+			multiInput: false,
+			input: undefined,
+			output: undefined,
+			middleware: { before: 0, use: 0, around: 0 },
+			hooks: { onRequest: 0, beforeHandle: 0, afterHandle: 0, onResponse: 0 },
+		});
+	});
+
+	it("should merge metadata from meta() calls without mutating earlier handlers", () => {
+		const base = handler().meta({ operationId: "getUser", tags: ["users"] });
+		const h = base.meta({ summary: "Get a user", deprecated: true });
+
+		expect(h.describe().meta).toEqual({
+			operationId: "getUser",
+			tags: ["users"],
+			summary: "Get a user",
+			deprecated: true,
+		});
+		expect(base.describe().meta).toEqual({ operationId: "getUser", tags: ["users"] });
+	});
+
+	it("should describe single input and output schemas with detected adapters", () => {
+		const inputSchema = z.object({ name: z.string() });
+		const outputSchema = z.object({ id: z.string() });
+		const h = handler()
+			.input(inputSchema)
+			.output(outputSchema)
+			.handle(async () => ({ id: "1" }));
+
+		const description = h.describe();
+
+		expect(description.multiInput).toBe(false);
+		expect(description.input).toEqual({
+			schema: inputSchema,
+			adapter: "zod",
+			jsonSchema: {
+				type: "object",
+				properties: { name: { type: "string" } },
+				required: ["name"],
+			},
+		});
+		expect(description.output).toMatchObject({ schema: outputSchema, adapter: "zod" });
+	});
+
+	it("should describe each part of a multi-input schema", () => {
+		const body = z.object({ name: z.string() });
+		const params = z.object({ id: z.string() });
+		const h = handler().input({ body, params });
+
+		const description = h.describe();
+
+		expect(description.multiInput).toBe(true);
+		expect(description.input).toMatchObject({
+			body: { schema: body, adapter: "zod" },
+			params: { schema: params, adapter: "zod" },
+		});
+	});
+
+	it("should report explicit adapter names and leave unknown schemas unnamed", () => {
+		const adapter = { name: "custom", parse: async (_schema: unknown, data: unknown) => data };
+		const h = handler().input({ custom: true }, adapter).output({ unknown: true });
+
+		expect(h.describe().input).toEqual({ schema: { custom: true }, adapter: "custom" });
+		expect(h.describe().output).toEqual({ schema: { unknown: true }, adapter: undefined });
+	});
+
+	it("should count middleware and hooks, including global hooks", () => {
+		configure({ hooks: { onRequest: () => {} } });
+		const h = handler()
+			.before(() => undefined)
+			.use(async () => ({}))
+			.use(async () => ({}))
+			.around(async (_input, _ctx, next) => next())
+			.onRequest(() => {})
+			.afterHandle(() => undefined)
+			.handle(async () => ({}));
+
+		const description = h.describe();
+
+		expect(description.middleware).toEqual({ before: 1, use: 2, around: 1 });
+		expect(description.hooks).toEqual({
+			onRequest: 2,
+			beforeHandle: 0,
+			afterHandle: 1,
+			onResponse: 0,
+		});
+	});
+});
@@ -0,0 +1,344 @@
+import Joi from "joi";
+import { describe, expect, it } from "vitest";
+import * as yup from "yup";
+import { z } from "zod";
+import {
+	joiAdapter,
+	joiToJSONSchema,
+	yupAdapter,
+	yupToJSONSchema,
+	zodAdapter,
+	zodToJSONSchema,
+} from "../../src/validators/index.js";
+
+describe("JSON Schema Conversion", () => {
+	it("built-in adapters should expose toJSONSchema", () => {
+		expect(zodAdapter.toJSONSchema).toBe(zodToJSONSchema);
+		expect(joiAdapter.toJSONSchema).toBe(joiToJSONSchema);
+		expect(yupAdapter.toJSONSchema).toBe(yupToJSONSchema);
+	});
+
+	describe("zodToJSONSchema", () => {
+		it("should convert objects with required and optional properties", () => {
+			const schema = z.object({
+				id: z.string().uuid(),
+				name: z.string().min(1).max(50),
+				age: z.number().int().min(0).optional(),
+				role: z.enum(["admin", "user"]).default("user"),
+				tags: z.array(z.string()).max(5),
+				bio: z.string().nullable(),
+			});
+
+			expect(zodToJSONSchema(schema)).toEqual({
+				type: "object",
+				properties: {
+					id: { type: "string", format: "uuid" },
+					name: { type: "string", minLength: 1, maxLength: 50 },
+					age: { type: "integer", minimum: 0 },
+					role: { type: "string", enum: ["admin", "user"], default: "user" },
+					tags: { type: "array", items: { type: "string" }, maxItems: 5 },
+					bio: { anyOf: [{ type: "string" }, { type: "null" }] },
+				},
+				required: ["id", "name", "tags", "bio"],
+			});
+		});
+
+		it("should convert literals, unions and descriptions", () => {
+			const schema = z
+				.union([
+					z.object({ status: z.literal(201), body: z.object({ id: z.string() }) }),
+					z.object({ status: z.literal(409), body: z.object({ reason: z.string() }) }),
+				])
+				.describe("Create result");
+
+			const result = zodToJSONSchema(schema);
+
+			expect(result.description).toBe("Create result");
+			expect(result.anyOf?.[0]?.properties?.status).toEqual({ const: 201 });
+			expect(result.anyOf?.[1]?.properties?.body).toEqual({
+				type: "object",
+				properties: { reason: { type: "string" } },
+				required: ["reason"],
+			});
+		});
+
+		it("should unwrap effects and return {} for unsupported schemas", () => {
+			expect(zodToJSONSchema(z.string().transform((value) => value.length))).toEqual({
+				type: "string",
+			});
+			expect(zodToJSONSchema(z.any())).toEqual({});
+			expect(zodToJSONSchema({})).toEqual({});
+		});
+
+		it("should convert string and number constraints", () => {
+			expect(
+				zodToJSONSchema(
+					z.object({
+						code: z
+							.string()
+							.length(3)
+							.regex(/^[A-Z]+$/),
+						email: z.string().email(),
+						site: z.string().url(),
+						at: z.string().datetime(),
+						on: z.string().date(),
+						ratio: z.number().gt(0).lt(1).multipleOf(0.5),
+						count: z.number().max(10),
+						big: z.bigint(),
+						flag: z.boolean(),
+						when: z.date(),
+						nothing: z.null(),
+					}),
+				).properties,
+			).toEqual({
+				code: { type: "string", minLength: 3, maxLength: 3, pattern: "^[A-Z]+$" },
+				email: { type: "string", format: "email" },
+				site: { type: "string", format: "uri" },
+				at: { type: "string", format: "date-time" },
+				on: { type: "string", format: "date" },
+				ratio: { type: "number", exclusiveMinimum: 0, exclusiveMaximum: 1, multipleOf: 0.5 },
+				count: { type: "number", maximum: 10 },
+				big: { type: "integer", format: "int64" },
+				flag: { type: "boolean" },
+				when: { type: "string", format: "date-time" },
+				nothing: { type: "null" },
+			});
+		});
+
+		it("should convert tuples, records, intersections and array lengths", () => {
+			expect(zodToJSONSchema(z.tuple([z.string(), z.number()]))).toEqual({
+				type: "array",
+				prefixItems: [{ type: "string" }, { type: "number" }],
+			});
+			expect(zodToJSONSchema(z.record(z.number()))).toEqual({
+				type: "object",
+				additionalProperties: { type: "number" },
+			});
+			expect(
+				zodToJSONSchema(z.intersection(z.object({ a: z.string() }), z.object({ b: z.number() }))),
+			).toEqual({
+				allOf: [
+					{ type: "object", properties: { a: { type: "string" } }, required: ["a"] },
+					{ type: "object", properties: { b: { type: "number" } }, required: ["b"] },
+				],
+			});
+			expect(zodToJSONSchema(z.array(z.string()).min(1))).toEqual({
+				type: "array",
+				items: { type: "string" },
+				minItems: 1,
+			});
+			expect(zodToJSONSchema(z.array(z.string()).length(2))).toEqual({
+				type: "array",
+				items: { type: "string" },
+				minItems: 2,
+				maxItems: 2,
+			});
+			expect(zodToJSONSchema(z.object({ a: z.string() }).strict())).toEqual({
+				type: "object",
+				properties: { a: { type: "string" } },
+				required: ["a"],
+				additionalProperties: false,
+			});
+		});
+
+		it("should convert native enums and discriminated unions", () => {
+			enum Direction {
+				Up = 0,
+				Down = 1,
+			}
+			enum Color {
+				Red = "red",
+				Blue = "blue",
+			}
+
+			expect(zodToJSONSchema(z.nativeEnum(Direction))).toEqual({ enum: [0, 1] });
+			expect(zodToJSONSchema(z.nativeEnum(Color))).toEqual({ enum: ["red", "blue"] });
+			expect(
+				zodToJSONSchema(
+					z.discriminatedUnion("kind", [
+						z.object({ kind: z.literal("a") }),
+						z.object({ kind: z.literal("b") }),
+					]),
+				).anyOf,
+			).toHaveLength(2);
+		});
+
+		it("should unwrap defaults, brands, pipelines, catch and readonly", () => {
+			expect(zodToJSONSchema(z.number().default(5))).toEqual({ type: "number", default: 5 });
+			expect(zodToJSONSchema(z.string().brand<"UserId">())).toEqual({ type: "string" });
+			expect(zodToJSONSchema(z.string().pipe(z.coerce.number()))).toEqual({ type: "string" });
+			expect(zodToJSONSchema(z.string().catch("x"))).toEqual({ type: "string" });
+			expect(zodToJSONSchema(z.object({}).readonly())).toEqual({
+				type: "object",
+				properties: {},
+			});
+		});
+	});
+
+	describe("joiToJSONSchema", () => {
+		it("should convert objects, constraints and presence", () => {
+			const schema = Joi.object({
+				email: Joi.string().email().required(),
+				age: Joi.number().integer().min(18).less(130),
+				role: Joi.string().valid("admin", "user"),
+				code: Joi.string().pattern(/^[A-Z]{3}$/),
+				nickname: Joi.string().allow(null).description("Display name"),
+				secret: Joi.forbidden(),
+				items: Joi.array().items(Joi.string()).min(1),
+			});
+
+			expect(joiToJSONSchema(schema)).toEqual({
+				type: "object",
+				properties: {
+					email: { type: "string", format: "email" },
+					age: { type: "integer", minimum: 18, exclusiveMaximum: 130 },
+					role: { type: "string", enum: ["admin", "user"] },
+					code: { type: "string", pattern: "^[A-Z]{3}$" },
+					nickname: {
+						anyOf: [{ type: "string", description: "Display name" }, { type: "null" }],
+					},
+					items: { type: "array", items: { type: "string" }, minItems: 1 },
+				},
+				required: ["email"],
+			});
+		});
+
+		it("should convert alternatives to anyOf", () => {
+			expect(joiToJSONSchema(Joi.alternatives().try(Joi.string(), Joi.number()))).toEqual({
+				anyOf: [{ type: "string" }, { type: "number" }],
+			});
+		});
+
+		it("should convert number and string rules", () => {
+			expect(
+				joiToJSONSchema(Joi.number().greater(0).less(1).multiple(0.25).description("Ratio")),
+			).toEqual({
+				type: "number",
+				exclusiveMinimum: 0,
+				exclusiveMaximum: 1,
+				multipleOf: 0.25,
+				description: "Ratio",
+			});
+			expect(joiToJSONSchema(Joi.number().min(1).max(10).default(5))).toEqual({
+				type: "number",
+				minimum: 1,
+				maximum: 10,
+				default: 5,
+			});
+			expect(joiToJSONSchema(Joi.string().min(2).max(8))).toEqual({
+				type: "string",
+				minLength: 2,
+				maxLength: 8,
+			});
+			expect(joiToJSONSchema(Joi.string().length(4))).toEqual({
+				type: "string",
+				minLength: 4,
+				maxLength: 4,
+			});
+			expect(joiToJSONSchema(Joi.string().uri())).toEqual({ type: "string", format: "uri" });
+			expect(joiToJSONSchema(Joi.string().guid())).toEqual({ type: "string", format: "uuid" });
+			expect(joiToJSONSchema(Joi.string().isoDate())).toEqual({
+				type: "string",
+				format: "date-time",
+			});
+			expect(joiToJSONSchema(Joi.boolean())).toEqual({ type: "boolean" });
+			expect(joiToJSONSchema(Joi.date())).toEqual({ type: "string", format: "date-time" });
+		});
+
+		it("should convert multi-item arrays, nullable values and closed objects", () => {
+			expect(joiToJSONSchema(Joi.array().items(Joi.string(), Joi.number()).max(3))).toEqual({
+				type: "array",
+				items: { anyOf: [{ type: "string" }, { type: "number" }] },
+				maxItems: 3,
+			});
+			expect(joiToJSONSchema(Joi.number().allow(null))).toEqual({
+				anyOf: [{ type: "number" }, { type: "null" }],
+			});
+			expect(
+				joiToJSONSchema(
+					Joi.object({ id: Joi.string(), internal: Joi.any().forbidden() }).unknown(false),
+				),
+			).toEqual({
+				type: "object",
+				properties: { id: { type: "string" } },
+				additionalProperties: false,
+			});
+		});
+
+		it("should return {} for unsupported schemas", () => {
+			expect(joiToJSONSchema(Joi.any())).toEqual({});
+			expect(joiToJSONSchema({})).toEqual({});
+		});
+	});
+
+	describe("yupToJSONSchema", () => {
+		it("should convert objects, constraints and required fields", () => {
+			const schema = yup.object({
+				email: yup.string().email().required(),
+				age: yup.number().integer().min(18).lessThan(130),
+				role: yup.string().oneOf(["admin", "user"]),
+				code: yup.string().matches(/^[A-Z]{3}$/),
+				nickname: yup.string().nullable(),
+				tags: yup.array(yup.string().required()).max(3),
+				joined: yup.date(),
+			});
+
+			expect(yupToJSONSchema(schema)).toEqual({
+				type: "object",
+				properties: {
+					email: { type: "string", format: "email" },
+					age: { type: "integer", minimum: 18, exclusiveMaximum: 130 },
+					role: { type: "string", enum: ["admin", "user"] },
+					code: { type: "string", pattern: "^[A-Z]{3}$" },
+					nickname: { anyOf: [{ type: "string" }, { type: "null" }] },
+					tags: { type: "array", items: { type: "string" }, maxItems: 3 },
+					joined: { type: "string", format: "date-time" },
+				},
+				required: ["email"],
+			});
+		});
+		it("should convert string and number tests", () => {
+			expect(yupToJSONSchema(yup.string().min(2).max(8))).toEqual({
+				type: "string",
+				minLength: 2,
+				maxLength: 8,
+			});
+			expect(yupToJSONSchema(yup.string().length(4))).toEqual({
+				type: "string",
+				minLength: 4,
+				maxLength: 4,
+			});
+			expect(yupToJSONSchema(yup.string().url())).toEqual({ type: "string", format: "uri" });
+			expect(yupToJSONSchema(yup.string().uuid())).toEqual({ type: "string", format: "uuid" });
+			expect(yupToJSONSchema(yup.number().moreThan(0).max(10))).toEqual({
+				type: "number",
+				exclusiveMinimum: 0,
+				maximum: 10,
+			});
+			expect(yupToJSONSchema(yup.boolean())).toEqual({ type: "boolean" });
+		});
+
+		it("should convert arrays, nullable, oneOf, defaults and labels", () => {
+			expect(yupToJSONSchema(yup.array(yup.number()).min(1))).toEqual({
+				type: "array",
+				items: { type: "number" },
+				minItems: 1,
+			});
+			expect(yupToJSONSchema(yup.array())).toEqual({ type: "array" });
+			expect(yupToJSONSchema(yup.number().nullable())).toEqual({
+				anyOf: [{ type: "number" }, { type: "null" }],
+			});
+			expect(yupToJSONSchema(yup.string().oneOf(["a", "b"]).default("a").label("Letter"))).toEqual({
+				type: "string",
+				enum: ["a", "b"],
+				default: "a",
+				title: "Letter",
+			});
+		});
+
+		it("should return {} for unsupported schemas", () => {
+			expect(yupToJSONSchema(yup.mixed())).toEqual({});
+			expect(yupToJSONSchema({})).toEqual({});
+		});
+	});
+});
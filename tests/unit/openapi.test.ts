@@ -0,0 +1,217 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+	ConflictError,
+	HandlerError,
+	NotFoundError,
+	generateOpenAPI,
+	handler,
+} from "../../src/index.js";
+
+const info = { title: "Users API", version: "1.0.0" };
+
+describe("generateOpenAPI", () => {
+	it("should document a route without schemas", () => {
+		const health = handler().handle(() => ({ ok: true }));
+
+		const document = generateOpenAPI({
+			info,
+			servers: [{ url: "https://api.example.com" }],
+			routes: [{ method: "GET", path: "/health", handler: health }],
+		});
+
+		expect(document).toEqual({
+			openapi: "3.1.0",
+			info,
+			servers: [{ url: "https://api.example.com" }],
+			paths: {
+				"/health": {
+					get: { responses: { "200": { description: "Successful response" } } },
+				},
+			},
+		});
+	});
+
+	it("should map multi-input parts to parameters and requestBody", () => {
+		const updateUser = handler()
+			.input({
+				params: z.object({ id: z.string().uuid() }),
+				query: z.object({ notify: z.enum(["yes", "no"]).optional() }),
+				headers: z.object({ "x-request-id": z.string().describe("Trace id") }),
+				body: z.object({ name: z.string() }),
+			})
+			.handle((input) => ({ id: input.params.id, name: input.body.name }))
+			.output(z.object({ id: z.string(), name: z.string() }))
+			.meta({ operationId: "updateUser", summary: "Update a user", tags: ["users"] });
+
+		const document = generateOpenAPI({
+			info,
+			routes: [{ method: "put", path: "/users/:id", handler: updateUser }],
+		});
+
+		const operation = document.paths["/users/{id}"]?.put;
+		expect(operation?.operationId).toBe("updateUser");
+		expect(operation?.summary).toBe("Update a user");
+		expect(operation?.tags).toEqual(["users"]);
+		expect(operation?.parameters).toEqual([
+			{ name: "id", in: "path", required: true, schema: { type: "string", format: "uuid" } },
+			{
+				name: "notify",
+				in: "query",
+				required: false,
+				schema: { type: "string", enum: ["yes", "no"] },
+			},
+			{
+				name: "x-request-id",
+				in: "header",
+				required: true,
+				schema: { type: "string", description: "Trace id" },
+				description: "Trace id",
+			},
+		]);
+		expect(operation?.requestBody).toEqual({
+			required: true,
+			content: {
+				"application/json": {
+					schema: { type: "object", properties: { name: { type: "string" } }, required: ["name"] },
+				},
+			},
+		});
+		expect(operation?.responses["200"]?.content?.["application/json"]?.schema).toEqual({
+			type: "object",
+			properties: { id: { type: "string" }, name: { type: "string" } },
+			required: ["id", "name"],
+		});
+	});
+
+	it("should treat single input as the request body and add undeclared path params", () => {
+		const create = handler()
+			.input(z.object({ title: z.string() }))
+			.handle((input) => input);
+
+		const document = generateOpenAPI({
+			info,
+			routes: [{ method: "post", path: "/projects/:projectId/tasks", handler: create }],
+		});
+
+		const operation = document.paths["/projects/{projectId}/tasks"]?.post;
+		expect(operation?.parameters).toEqual([
+			{ name: "projectId", in: "path", required: true, schema: { type: "string" } },
+		]);
+		expect(operation?.requestBody?.content["application/json"]?.schema).toMatchObject({
+			type: "object",
+		});
+	});
+
+	it("should add a 400 ValidationError response when the handler has input", () => {
+		const create = handler()
+			.input(z.object({ title: z.string() }))
+			.handle((input) => input);
+
+		const document = generateOpenAPI({
+			info,
+			routes: [{ method: "post", path: "/tasks", handler: create }],
+		});
+
+		expect(document.paths["/tasks"]?.post?.responses["400"]).toEqual({
+			description: "Validation failed",
+			content: {
+				"application/json": { schema: { $ref: "#/components/schemas/ValidationError" } },
+			},
+		});
+		expect(Object.keys(document.components?.schemas ?? {})).toEqual(["ValidationError"]);
+	});
+
+	it("should split ResponseObject outputs into responses by status", () => {
+		const create = handler()
+			.handle(() => ({ status: 201 as const, body: { id: "1" } }))
+			.output(
+				z.union([
+					z.object({ status: z.literal(201), body: z.object({ id: z.string() }) }),
+					z.object({ status: z.literal(409), body: z.object({ reason: z.string() }) }),
+				]),
+			);
+
+		const document = generateOpenAPI({
+			info,
+			routes: [{ method: "post", path: "/items", handler: create }],
+		});
+
+		const responses = document.paths["/items"]?.post?.responses;
+		expect(Object.keys(responses ?? {})).toEqual(["201", "409"]);
+		expect(responses?.["201"]?.content?.["application/json"]?.schema).toEqual({
+			type: "object",
+			properties: { id: { type: "string" } },
+			required: ["id"],
+		});
+		expect(responses?.["409"]?.description).toBe("Response");
+	});
+
+	it("should document declared errors", () => {
+		class QuotaError extends HandlerError {
+			constructor() {
+				super("Quota exceeded", 429);
+			}
+		}
+
+		const getUser = handler().handle(() => ({ id: "1" }));
+
+		const document = generateOpenAPI({
+			info,
+			routes: [
+				{
+					method: "get",
+					path: "/users/:id",
+					handler: getUser,
+					errors: [NotFoundError, new ConflictError("Already archived"), QuotaError],
+				},
+			],
+		});
+
+		const responses = document.paths["/users/{id}"]?.get?.responses;
+		expect(responses?.["404"]).toEqual({
+			description: "Not Found",
+			content: {
+				"application/problem+json": { schema: { $ref: "#/components/schemas/ProblemDetails" } },
+			},
+		});
+		expect(responses?.["409"]?.description).toBe("Conflict");
+		expect(responses?.["429"]).toEqual({
+			description: "Quota exceeded",
+			content: { "application/json": { schema: { $ref: "#/components/schemas/HandlerError" } } },
+		});
+		expect(Object.keys(document.components?.schemas ?? {}).sort()).toEqual([
+			"HandlerError",
+			"ProblemDetails",
+		]);
+	});
+
+	it("should group methods under the same path", () => {
+		const list = handler().handle(() => []);
+		const create = handler().handle(() => ({}));
+
+		const document = generateOpenAPI({
+			info,
+			routes: [
+				{ method: "get", path: "/users", handler: list },
+				{ method: "post", path: "/users", handler: create },
+			],
+		});
+
+		expect(Object.keys(document.paths["/users"] ?? {})).toEqual(["get", "post"]);
+	});
+
+	it("should throw on duplicate routes", () => {
+		const list = handler().handle(() => []);
+
+		expect(() =>
+			generateOpenAPI({
+				info,
+				routes: [
+					{ method: "get", path: "/users/:id", handler: list },
+					{ method: "GET", path: "/users/:id", handler: list },
+				],
+			}),
+		).toThrow("Duplicate route GET /users/{id}");
+	});
+});
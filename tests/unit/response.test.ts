@@ -1,5 +1,10 @@
 import { describe, expect, it } from "vitest";
-import { isResponseObject } from "../../src/utils/response.js";
+import {
+	isEarlyResponse,
+	isResponseObject,
+	respond,
+	toResponseBody,
+} from "../../src/utils/response.js";
 import type { ResponseObject } from "../../src/utils/response.js";
 
 describe("Response Utilities", () => {
@@ -87,4 +92,66 @@ describe("Response Utilities", () => {
 			expect(isResponseObject(obj)).toBe(true);
 		});
 	});
+
+	describe("respond", () => {
+		it("should create a ResponseObject", () => {
+			const response = respond(401, { error: "Unauthorized" });
+			expect(response).toEqual({ status: 401, body: { error: "Unauthorized" } });
+			expect(isResponseObject(response)).toBe(true);
+		});
+
+		it("should keep the early response marker out of enumerable properties", () => {
+			const response = respond(200, "ok", { headers: { "X-Cache": "HIT" } });
+			expect(Object.keys(response)).toEqual(["status", "body", "headers"]);
+			expect(JSON.stringify(response)).toBe(
+				'{"status":200,"body":"ok","headers":{"X-Cache":"HIT"}}',
+			);
+		});
+	});
+
+	describe("isEarlyResponse", () => {
+		it("should return true only for responses created with respond()", () => {
+			expect(isEarlyResponse(respond(204, null))).toBe(true);
+			expect(isEarlyResponse({ status: 204, body: null })).toBe(false);
+			expect(isEarlyResponse(null)).toBe(false);
+		});
+	});
+
+	describe("toResponseBody", () => {
+		it("should send no content without a body or for 204 responses", () => {
+			expect(toResponseBody({ status: 202, body: undefined })).toEqual({ kind: "empty" });
+			expect(toResponseBody({ status: 204, body: { ok: true } })).toEqual({ kind: "empty" });
+		});
+
+		it("should send strings and bytes with a non-JSON content type as they are", () => {
+			const headers = { "content-type": "text/html" };
+			expect(toResponseBody({ status: 200, body: "<p>Hi</p>", headers })).toEqual({
+				kind: "raw",
+				value: "<p>Hi</p>",
+			});
+			expect(toResponseBody({ status: 200, body: new Uint8Array([1]).buffer, headers })).toEqual({
+				kind: "raw",
+				value: new Uint8Array([1]),
+			});
+		});
+
+		it("should send other bodies as JSON with the response's content type", () => {
+			expect(toResponseBody({ status: 200, body: "ok" })).toEqual({
+				kind: "json",
+				value: "ok",
+				contentType: "application/json",
+			});
+			expect(
+				toResponseBody({
+					status: 404,
+					body: { detail: "Not found" },
+					headers: { "Content-Type": "application/problem+json" },
+				}),
+			).toEqual({
+				kind: "json",
+				value: { detail: "Not found" },
+				contentType: "application/problem+json",
+			});
+		});
+	});
 });
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getRetryHistory, retryDelay, withRetry } from "../../src/utils/retry.js";
+
+describe("Retry Utilities", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe("retryDelay", () => {
+		it("should use the base delay for fixed backoff", () => {
+			expect(retryDelay({ attempts: 3, delay: 50 }, 1)).toBe(50);
+			expect(retryDelay({ attempts: 3, delay: 50 }, 3)).toBe(50);
+		});
+
+		it("should double the delay for exponential backoff", () => {
+			const options = { attempts: 4, backoff: "exponential" as const, delay: 50 };
+			expect([1, 2, 3].map((attempt) => retryDelay(options, attempt))).toEqual([50, 100, 200]);
+		});
+
+		it("should cap the delay at maxDelay", () => {
+			const options = { attempts: 5, backoff: "exponential" as const, delay: 50, maxDelay: 120 };
+			expect(retryDelay(options, 4)).toBe(120);
+		});
+
+		it("should randomize the delay with jitter", () => {
+			vi.spyOn(Math, "random").mockReturnValue(0.5);
+			expect(retryDelay({ attempts: 2, delay: 100, jitter: true }, 1)).toBe(50);
+		});
+
+		it("should default to 100ms", () => {
+			expect(retryDelay({ attempts: 2 }, 1)).toBe(100);
+		});
+	});
+
+	describe("withRetry", () => {
+		it("should not attach history to primitive errors", async () => {
+			const error = await withRetry({ attempts: 1 }, async () => {
+				throw "boom";
+			}).catch((e: unknown) => e);
+
+			expect(error).toBe("boom");
+			expect(getRetryHistory(error)).toBeUndefined();
+		});
+
+		it("should call onRetry before each new attempt", async () => {
+			const onRetry = vi.fn();
+			const fn = vi.fn().mockRejectedValueOnce(new Error("flaky")).mockResolvedValueOnce("ok");
+
+			await expect(withRetry({ attempts: 2, delay: 0 }, fn, { onRetry })).resolves.toBe("ok");
+			expect(onRetry).toHaveBeenCalledWith({ attempt: 1, error: expect.any(Error), delay: 0 });
+		});
+	});
+});
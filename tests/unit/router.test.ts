@@ -0,0 +1,181 @@
+import type { IRouter } from "express";
+import type { FastifyInstance } from "fastify";
+import { Hono } from "hono";
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { generateOpenAPI, handler, respond, router } from "../../src/index.js";
+
+describe("Router", () => {
+	const getUser = handler()
+		.input({ params: z.object({ id: z.string() }) })
+		.handle((input) => ({ id: input.params.id }));
+
+	it("should register routes with their methods and paths", () => {
+		const list = handler().handle(() => []);
+		const r = router()
+			.get("/users", list)
+			.get("/users/:id", getUser)
+			.post("/users", list)
+			.put("/users/:id", getUser)
+			.patch("/users/:id", getUser)
+			.delete("/users/:id", getUser);
+
+		expect(r.routes().map((route) => `${route.method} ${route.path}`)).toEqual([
+			"get /users",
+			"get /users/:id",
+			"post /users",
+			"put /users/:id",
+			"patch /users/:id",
+			"delete /users/:id",
+		]);
+		expect(r.routes()[0]?.handler).toBe(list);
+	});
+
+	it("should be immutable", () => {
+		const base = router();
+		const withRoute = base.get("/users/:id", getUser);
+
+		expect(base.routes()).toHaveLength(0);
+		expect(withRoute.routes()).toHaveLength(1);
+	});
+
+	it("should prefix routes registered in a group", () => {
+		const r = router().group("/admin", (admin) =>
+			admin.get("/users/:id", getUser).group("/v2", (v2) => v2.get("/users/:id", getUser)),
+		);
+
+		expect(r.routes().map((route) => route.path)).toEqual([
+			"/admin/users/:id",
+			"/admin/v2/users/:id",
+		]);
+	});
+
+	it("should throw on duplicate routes", () => {
+		const r = router().get("/users/:id", getUser);
+
+		expect(() => r.get("/users/:id", getUser)).toThrow("Duplicate route GET /users/:id");
+		expect(() => r.group("/users", (users) => users.get("/:id", getUser))).toThrow(
+			"Duplicate route GET /users/:id",
+		);
+	});
+
+	it("should run shared middleware before the handler's own middleware", async () => {
+		const order: string[] = [];
+		const h = handler<{ user: string }>()
+			.use(async (_req, ctx) => {
+				order.push(`handler:${ctx.user}`);
+				return {};
+			})
+			.handle((_input, ctx) => ({ user: ctx.user }));
+
+		const r = router()
+			.use(async () => {
+				order.push("router");
+				return { user: "alice" };
+			})
+			.post("/me", h);
+
+		const output = await r.routes()[0]?.handler.execute({}, {});
+
+		expect(output).toEqual({ user: "alice" });
+		expect(order).toEqual(["router", "handler:alice"]);
+	});
+
+	it("should apply shared middleware only to routes registered after it", async () => {
+		const auth = vi.fn(async () => respond(401, { error: "Unauthorized" }));
+		const h = handler().handle(() => ({ ok: true }));
+
+		const r = router().get("/health", h).use(auth).get("/private", h);
+		const [health, privateRoute] = r.routes();
+
+		expect(health?.handler).toBe(h);
+		expect(await health?.handler.execute({}, {})).toEqual({ ok: true });
+		expect(await privateRoute?.handler.execute({}, {})).toMatchObject({ status: 401 });
+		expect(auth).toHaveBeenCalledTimes(1);
+	});
+
+	it("should keep middleware added in a group inside the group", async () => {
+		const outer = vi.fn(async () => ({}));
+		const inner = vi.fn(async () => ({}));
+		const h = handler().handle(() => ({ ok: true }));
+
+		const r = router()
+			.use(outer)
+			.group("/admin", (admin) => admin.use(inner).get("/stats", h))
+			.get("/public", h);
+
+		for (const route of r.routes()) {
+			await route.handler.execute({}, {});
+		}
+
+		expect(outer).toHaveBeenCalledTimes(2);
+		expect(inner).toHaveBeenCalledTimes(1);
+		expect(r.routes()[1]?.handler.describe().middleware.use).toBe(1);
+	});
+
+	it("routes() should work with generateOpenAPI", () => {
+		const r = router().group("/users", (users) => users.get("/:id", getUser));
+
+		const document = generateOpenAPI({ info: { title: "API", version: "1" }, routes: r.routes() });
+
+		expect(Object.keys(document.paths)).toEqual(["/users/{id}"]);
+	});
+
+	describe("mounting", () => {
+		const r = router()
+			.get("/users/:id", getUser)
+			.post(
+				"/users",
+				handler().handle(() => ({ created: true })),
+			);
+
+		it("toExpress should register each route on the app", async () => {
+			const app = { get: vi.fn(), post: vi.fn() };
+
+			await r.toExpress(app as unknown as IRouter);
+
+			expect(app.get).toHaveBeenCalledWith("/users/:id", expect.any(Function));
+			expect(app.post).toHaveBeenCalledWith("/users", expect.any(Function));
+		});
+
+		it("toFastify should register each route on the instance", async () => {
+			const instance = { route: vi.fn() };
+
+			await r.toFastify(instance as unknown as FastifyInstance);
+
+			expect(instance.route).toHaveBeenCalledWith({
+				method: "GET",
+				url: "/users/:id",
+				handler: expect.any(Function),
+			});
+			expect(instance.route).toHaveBeenCalledWith({
+				method: "POST",
+				url: "/users",
+				handler: expect.any(Function),
+			});
+		});
+
+		it("toHono should register routes that serve requests", async () => {
+			const app = new Hono();
+			const echo = handler()
+				.input({
+					params: z.object({ id: z.string() }),
+					body: z.object({ name: z.string() }),
+				})
+				.handle((input) => ({ id: input.params.id, name: input.body.name }));
+
+			await router()
+				.group("/users", (users) => users.put("/:id", echo))
+				.toHono(app);
+
+			const response = await app.request("/users/42", {
+				method: "PUT",
+				headers: { "content-type": "application/json" },
+				body: JSON.stringify({ name: "Alice" }),
+			});
+
+			expect(response.status).toBe(200);
+			expect(await response.json()).toEqual({ id: "42", name: "Alice" });
+		});
+	});
+});
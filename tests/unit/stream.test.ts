@@ -0,0 +1,149 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+	encodeStream,
+	isStreamingOutput,
+	streamHeaders,
+	toAsyncIterable,
+	toReadableStream,
+} from "../../src/utils/stream.js";
+
+async function* numbers(count: number) {
+	for (let i = 1; i <= count; i++) {
+		yield { n: i };
+	}
+}
+
+async function collect<T>(source: AsyncIterable<T>): Promise<T[]> {
+	const chunks: T[] = [];
+	for await (const chunk of source) {
+		chunks.push(chunk);
+	}
+	return chunks;
+}
+
+describe("Stream Utilities", () => {
+	describe("isStreamingOutput", () => {
+		it("should detect async iterables and readable streams", () => {
+			expect(isStreamingOutput(numbers(1))).toBe(true);
+			expect(isStreamingOutput(new ReadableStream())).toBe(true);
+		});
+
+		it("should return false for plain values", () => {
+			expect(isStreamingOutput({ n: 1 })).toBe(false);
+			expect(isStreamingOutput([1, 2])).toBe(false);
+			expect(isStreamingOutput("text")).toBe(false);
+			expect(isStreamingOutput(null)).toBe(false);
+		});
+	});
+
+	describe("streamHeaders", () => {
+		it("should disable caching for SSE", () => {
+			expect(streamHeaders("sse")).toEqual({
+				"Content-Type": "text/event-stream",
+				"Cache-Control": "no-cache",
+				Connection: "keep-alive",
+			});
+		});
+
+		it("should use the NDJSON content type", () => {
+			expect(streamHeaders("ndjson")).toEqual({ "Content-Type": "application/x-ndjson" });
+		});
+	});
+
+	describe("encodeStream", () => {
+		it("should encode chunks as SSE data events", async () => {
+			expect(await collect(encodeStream(numbers(2), "sse"))).toEqual([
+				'data: {"n":1}\n\n',
+				'data: {"n":2}\n\n',
+			]);
+		});
+
+		it("should encode chunks as NDJSON lines", async () => {
+			expect(await collect(encodeStream(numbers(2), "ndjson"))).toEqual(['{"n":1}\n', '{"n":2}\n']);
+		});
+
+		it("should end SSE with an error event when the source fails", async () => {
+			async function* failing() {
+				yield { n: 1 };
+				throw new Error("boom");
+			}
+			const mapError = vi.fn(async () => ({ error: "Mapped" }));
+
+			expect(await collect(encodeStream(failing(), "sse", mapError))).toEqual([
+				'data: {"n":1}\n\n',
+				'event: error\ndata: {"error":"Mapped"}\n\n',
+			]);
+			expect(mapError).toHaveBeenCalledWith(expect.any(Error));
+		});
+
+		it("should rethrow NDJSON source failures", async () => {
+			async function* failing() {
+				yield { n: 1 };
+				throw new Error("boom");
+			}
+
+			await expect(collect(encodeStream(failing(), "ndjson"))).rejects.toThrow("boom");
+		});
+	});
+
+	describe("toAsyncIterable", () => {
+		it("should read a ReadableStream", async () => {
+			const stream = new ReadableStream({
+				start(controller) {
+					controller.enqueue("a");
+					controller.enqueue("b");
+					controller.close();
+				},
+			});
+
+			expect(await collect(toAsyncIterable(stream))).toEqual(["a", "b"]);
+		});
+
+		it("should cancel the ReadableStream when iteration stops early", async () => {
+			const cancel = vi.fn();
+			const stream = new ReadableStream({
+				pull(controller) {
+					controller.enqueue("tick");
+				},
+				cancel,
+			});
+
+			for await (const _chunk of toAsyncIterable(stream)) {
+				break;
+			}
+
+			expect(cancel).toHaveBeenCalled();
+		});
+	});
+
+	describe("toReadableStream", () => {
+		it("should encode string chunks as bytes", async () => {
+			async function* lines() {
+				yield "a\n";
+				yield "b\n";
+			}
+
+			const text = await new Response(toReadableStream(lines())).text();
+			expect(text).toBe("a\nb\n");
+		});
+
+		it("should stop the source when cancelled", async () => {
+			const cleanup = vi.fn();
+			async function* endless() {
+				try {
+					while (true) {
+						yield "tick\n";
+					}
+				} finally {
+					cleanup();
+				}
+			}
+
+			const reader = toReadableStream(endless()).getReader();
+			await reader.read();
+			await reader.cancel();
+
+			expect(cleanup).toHaveBeenCalled();
+		});
+	});
+});
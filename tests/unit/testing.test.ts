@@ -0,0 +1,196 @@
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { NotFoundError, ValidationError, handler, respond } from "../../src/index.js";
+import { fakeExpress, testHandler } from "../../src/testing/index.js";
+
+const authenticate = async (_req: unknown, ctx: { token?: string }) => {
+	if (!ctx.token) {
+		return respond(401, { error: "Unauthorized" }, { bypass: true });
+	}
+	return { user: { id: ctx.token } };
+};
+
+const getProfile = handler<{ token?: string }>()
+	.input(z.object({ verbose: z.boolean().optional() }))
+	.use(authenticate)
+	.handle((_input, ctx) => ({ id: ctx.user.id }))
+	.output(z.object({ id: z.string() }));
+
+describe("testHandler", () => {
+	it("should inject partial context", async () => {
+		const result = await testHandler(getProfile).context({ token: "u1" }).execute({});
+
+		expect(result).toMatchObject({ ok: true, value: { id: "u1" } });
+	});
+
+	it("should stub a use() middleware by name", async () => {
+		const result = await testHandler(getProfile)
+			.stub("authenticate", { user: { id: "stubbed" } })
+			.execute({});
+
+		expect(result).toMatchObject({ ok: true, value: { id: "stubbed" } });
+	});
+
+	it("should stub before() and around() middleware by name", async () => {
+		const h = handler()
+			.before(function loadTenant() {
+				return { context: { tenant: "real" } };
+			})
+			.around(async function transaction(_input, _ctx, next) {
+				return next({ tx: "real" });
+			})
+			.handle((_input, ctx) => ({ tenant: ctx.tenant, tx: ctx.tx }));
+
+		const result = await testHandler(h)
+			.stub("loadTenant", { tenant: "fake" })
+			.stub("transaction", { tx: "fake" })
+			.execute({});
+
+		expect(result).toMatchObject({ ok: true, value: { tenant: "fake", tx: "fake" } });
+	});
+
+	it("should override a middleware with another implementation", async () => {
+		const override = vi.fn(async () => ({ user: { id: "override" } }));
+
+		const result = await testHandler(getProfile).override("authenticate", override).execute({});
+
+		expect(override).toHaveBeenCalledWith({}, {});
+		expect(result).toMatchObject({ ok: true, value: { id: "override" } });
+	});
+
+	it("should throw when no middleware has the name", () => {
+		expect(() => testHandler(getProfile).stub("authorize", {})).toThrow(
+			'No middleware named "authorize"',
+		);
+	});
+
+	it("should not change the original handler", async () => {
+		const tester = testHandler(getProfile).stub("authenticate", { user: { id: "stubbed" } });
+
+		expect(tester.handler()).not.toBe(getProfile);
+		expect(await getProfile.execute({}, {})).toMatchObject({ status: 401 });
+	});
+
+	it("should record the stages that ran", async () => {
+		const tester = testHandler(getProfile.transform((output) => output));
+
+		const ok = await tester.context({ token: "u1" }).execute({});
+		const invalid = await tester.execute({ verbose: "yes" });
+		const early = await tester.execute({});
+
+		expect(ok.stages).toEqual(["input", "middleware", "handler", "transform", "output"]);
+		expect(invalid).toMatchObject({ ok: false, stage: "input", stages: ["input"] });
+		expect(early.stages).toEqual(["input", "middleware"]);
+	});
+
+	it("should assert values against the output schema", async () => {
+		const tester = testHandler(getProfile);
+
+		await expect(tester.assertOutput({ id: "1" })).resolves.toEqual({ id: "1" });
+		await expect(tester.assertOutput({ id: 1 })).rejects.toBeInstanceOf(ValidationError);
+	});
+
+	it("should assert output when validateOutput is disabled", async () => {
+		const h = handler({ validateOutput: false })
+			.handle(() => ({ id: 1 }))
+			.output(z.object({ id: z.string() }));
+		const tester = testHandler(h);
+
+		const result = await tester.execute({});
+
+		expect(result.ok).toBe(true);
+		expect(result.stages).not.toContain("output");
+		await expect(tester.assertOutput(result.ok && result.value)).rejects.toBeInstanceOf(
+			ValidationError,
+		);
+	});
+
+	describe("adapters", () => {
+		const getUser = handler()
+			.input({
+				params: z.object({ id: z.string() }),
+				headers: z.object({ "x-tenant": z.string() }),
+			})
+			.handle((input) => {
+				if (input.params.id === "missing") {
+					throw new NotFoundError("User not found");
+				}
+				return { id: input.params.id, tenant: input.headers["x-tenant"] };
+			});
+
+		const request = { params: { id: "1" }, headers: { "X-Tenant": "acme" } };
+
+		it("express() should run the Express adapter against fakes", async () => {
+			const response = await testHandler(getUser).express(request);
+
+			expect(response).toEqual({
+				status: 200,
+				body: { id: "1", tenant: "acme" },
+				headers: {},
+			});
+		});
+
+		it("fastify() should run the Fastify adapter against fakes", async () => {
+			const response = await testHandler(getUser).fastify(request);
+
+			expect(response).toEqual({
+				status: 200,
+				body: { id: "1", tenant: "acme" },
+				headers: {},
+			});
+		});
+
+		it("hono() should run the Hono adapter against fakes", async () => {
+			const response = await testHandler(getUser).hono(request);
+
+			expect(response).toEqual({
+				status: 200,
+				body: { id: "1", tenant: "acme" },
+				headers: {},
+			});
+		});
+
+		it("should write error responses", async () => {
+			const tester = testHandler(getUser);
+			const missing = { ...request, params: { id: "missing" } };
+
+			for (const response of [
+				await tester.express(missing),
+				await tester.fastify(missing),
+				await tester.hono(missing),
+			]) {
+				expect(response.status).toBe(404);
+				expect(response.body).toMatchObject({ title: "Not Found", detail: "User not found" });
+				expect(response.headers).toEqual({ "Content-Type": "application/problem+json" });
+			}
+		});
+
+		it("should pass injected context and stubs to adapter runs", async () => {
+			const response = await testHandler(getProfile).context({ token: "u1" }).hono({ body: {} });
+			const stubbed = await testHandler(getProfile)
+				.stub("authenticate", { user: { id: "stubbed" } })
+				.express({ body: {} });
+
+			expect(response.body).toEqual({ id: "u1" });
+			expect(stubbed.body).toEqual({ id: "stubbed" });
+		});
+
+		it("should record errors the framework would handle", async () => {
+			const boom = new Error("boom");
+			const h = handler().handle(() => {
+				throw boom;
+			});
+
+			expect((await testHandler(h).express()).error).toBe(boom);
+			expect((await testHandler(h).fastify()).error).toBe(boom);
+		});
+	});
+
+	it("fakeExpress should build a request from init", () => {
+		const { req } = fakeExpress({ body: { a: 1 }, query: { q: "x" }, headers: { Accept: "json" } });
+
+		expect(req.body).toEqual({ a: 1 });
+		expect(req.query).toEqual({ q: "x" });
+		expect(req.headers).toEqual({ accept: "json" });
+	});
+});
@@ -2,10 +2,13 @@ import Joi from "joi";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import * as yup from "yup";
 import { z } from "zod";
+import { ValidationError } from "../../src/errors/index.js";
+import type { StandardSchemaV1 } from "../../src/types.js";
 import {
 	builtInAdapters,
 	detectValidator,
 	joiAdapter,
+	standardSchemaAdapter,
 	yupAdapter,
 	zodAdapter,
 } from "../../src/validators/index.js";
@@ -96,6 +99,110 @@ describe("Validator Adapters", () => {
 	});
 });
 
+function nameSchema(async = false): StandardSchemaV1<{ name: string }> {
+	const validate = (value: unknown): StandardSchemaV1.Result<{ name: string }> => {
+		const name = (value as { name?: unknown } | undefined)?.name;
+		if (typeof name !== "string") {
+			return { issues: [{ message: "Expected string", path: [{ key: "name" }] }] };
+		}
+		return { value: { name } };
+	};
+	return {
+		"~standard": {
+			version: 1,
+			vendor: "test",
+			validate: async ? async (value) => validate(value) : validate,
+		},
+	};
+}
+
+describe("Validator Adapter Issue Formatting", () => {
+	it("Zod adapter should format issues with path, message and code", async () => {
+		const schema = z.object({ user: z.object({ name: z.string() }) });
+		const error = await zodAdapter.parse(schema, { user: { name: 1 } }).catch((e: unknown) => e);
+
+		expect(zodAdapter.formatIssues(error)).toEqual([
+			{ path: ["user", "name"], message: "Expected string, received number", code: "invalid_type" },
+		]);
+	});
+
+	it("Joi adapter should format every failing detail", async () => {
+		const schema = Joi.object({ tags: Joi.array().items(Joi.string()), age: Joi.number() });
+		const error = await joiAdapter.parse(schema, { tags: [1], age: "x" }).catch((e: unknown) => e);
+
+		expect(joiAdapter.formatIssues(error)).toEqual([
+			{ path: ["tags", 0], message: '"tags[0]" must be a string', code: "string.base" },
+			{ path: ["age"], message: '"age" must be a number', code: "number.base" },
+		]);
+	});
+
+	it("Yup adapter should format inner errors and parse their paths", async () => {
+		const schema = yup.object({
+			items: yup.array(yup.object({ name: yup.string().required() })),
+		});
+		const error = await yupAdapter.parse(schema, { items: [{}] }).catch((e: unknown) => e);
+
+		expect(yupAdapter.formatIssues(error)).toEqual([
+			{
+				path: ["items", 0, "name"],
+				message: "items[0].name is a required field",
+				code: "optionality",
+			},
+		]);
+	});
+
+	it("Built-in adapters should return no issues for unrelated errors", () => {
+		for (const adapter of builtInAdapters) {
+			expect(adapter.formatIssues?.(new Error("boom"))).toEqual([]);
+		}
+	});
+});
+
+describe("Standard Schema Adapter", () => {
+	it("should detect objects exposing ~standard.validate", () => {
+		expect(standardSchemaAdapter.detect(nameSchema())).toBe(true);
+	});
+
+	it("should return false for null, undefined and plain objects", () => {
+		expect(standardSchemaAdapter.detect(null)).toBe(false);
+		expect(standardSchemaAdapter.detect(undefined)).toBe(false);
+		expect(standardSchemaAdapter.detect({ "~standard": null })).toBe(false);
+		expect(standardSchemaAdapter.detect({ foo: "bar" })).toBe(false);
+	});
+
+	it("should parse valid data with a sync validate function", async () => {
+		const result = await standardSchemaAdapter.parse(nameSchema(), { name: "test" });
+		expect(result).toEqual({ name: "test" });
+	});
+
+	it("should parse valid data with an async validate function", async () => {
+		const result = await standardSchemaAdapter.parse(nameSchema(true), { name: "test" });
+		expect(result).toEqual({ name: "test" });
+	});
+
+	it("should throw ValidationError built from issues", async () => {
+		const data = { name: 123 };
+		const error = await standardSchemaAdapter
+			.parse(nameSchema(true), data)
+			.catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(ValidationError);
+		expect(error.message).toBe("Validation failed");
+		expect(error.field).toBe("name");
+		expect(error.value).toBe(data);
+		expect(error.originalError).toEqual([{ message: "Expected string", path: [{ key: "name" }] }]);
+		expect(error.issues).toEqual([{ path: ["name"], message: "Expected string", code: "invalid" }]);
+	});
+
+	it("should validate with Zod's ~standard implementation", async () => {
+		const schema = z.object({ name: z.string() });
+		await expect(standardSchemaAdapter.parse(schema, { name: "test" })).resolves.toEqual({
+			name: "test",
+		});
+		await expect(standardSchemaAdapter.parse(schema, { name: 1 })).rejects.toThrow(ValidationError);
+	});
+});
+
 describe("Validator Detector", () => {
 	afterEach(() => {
 		clearAdapters();
@@ -119,6 +226,11 @@ describe("Validator Detector", () => {
 		expect(result).toBe(yupAdapter);
 	});
 
+	it("detectValidator should return Standard Schema adapter for other ~standard schemas", () => {
+		const result = detectValidator(nameSchema());
+		expect(result).toBe(standardSchemaAdapter);
+	});
+
 	it("detectValidator should return custom registered adapter before built-in", () => {
 		const customAdapter = {
 			name: "custom",
@@ -1,7 +1,7 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-	entry: ["src/index.ts", "src/adapters/index.ts"],
+	entry: ["src/index.ts", "src/adapters/index.ts", "src/testing/index.ts", "src/nestjs/index.ts"],
 	format: ["cjs", "esm"],
 	dts: true,
 	splitting: false,